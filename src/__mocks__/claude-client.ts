@@ -1,5 +1,5 @@
 import { metricsService } from '../metrics/service.js';
-import { ClaudeConfig } from '../claude/client.js';
+import { ClaudeConfig, ConversationMessage, ConversationResponse } from '../claude/client.js';
 import { logger } from '../logging/base.js';
 import { LogComponent } from '../logging/types.js';
 
@@ -62,10 +62,26 @@ export class ClaudeClient {
     throw error;
   }
 
+  async converse(messages: ConversationMessage[]): Promise<ConversationResponse> {
+    const prompt = messages
+      .map(m => typeof m.content === 'string' ? m.content : JSON.stringify(m.content))
+      .join('\n');
+    const text = await this.complete(prompt);
+    return {
+      content: [{ type: 'text', text }],
+      stopReason: 'end_turn',
+      usage: { inputTokens: 100, outputTokens: 50 }
+    };
+  }
+
   async countTokens(text: string): Promise<number> {
     return Math.ceil(text.length / 4);
   }
 
+  withRole(role: string): ClaudeClient {
+    return new ClaudeClient({ ...this.config, role });
+  }
+
   getMetricsSummary() {
     return metricsService.getMetricsSummary();
   }
@@ -0,0 +1,1494 @@
+import { Agent, AgentConfig } from '../agents/base/Agent.js';
+import { ClaudeClient, ConversationMessage, ConversationResponse } from '../claude/client.js';
+import { Memory } from '../agents/base/Memory.js';
+import { RoleLoader } from '../roles/loader.js';
+import { BaseTool, Parameter } from '../tools/base.js';
+import { ApprovalHandler } from '../approval/base.js';
+import { ApprovalRequest } from '../approval/types.js';
+import { BackplaneApprovalHandler } from '../approval/backplane.js';
+import { ClarificationHandler } from '../clarification/base.js';
+import { BackplaneClarificationHandler } from '../clarification/backplane.js';
+import { ConsoleClarificationHandler } from '../clarification/console.js';
+import { ClarificationRequest } from '../clarification/types.js';
+import { createEnvelope } from '../backplane/envelope.js';
+import { MessageEnvelope } from '../backplane/types.js';
+import { migrateSnapshot, SNAPSHOT_VERSION } from '../agents/base/Checkpoint.js';
+import { AgentPlugin } from '../agents/base/Plugins.js';
+import { currentBudget } from '../budget/base.js';
+import { TraceRecorder, TraceReplayer } from '../trace/base.js';
+import { blockTopics, limitResponseLength, redactSecrets, requireFormat } from '../guardrails/rules.js';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PassThrough } from 'stream';
+
+const mockConverse = jest.fn<Promise<ConversationResponse>, [ConversationMessage[], any]>();
+const mockComplete = jest.fn<Promise<string>, [string, any?]>().mockResolvedValue('Mocked response');
+
+jest.mock('../claude/client.js', () => ({
+  ClaudeClient: jest.fn().mockImplementation(() => ({
+    config: {},
+    withRole() { return this; },
+    converse: mockConverse,
+    complete: (prompt: string, options?: any) => mockComplete(prompt, options),
+    getMetricsSummary: jest.fn(),
+    resetMetrics: jest.fn()
+  }))
+}));
+
+jest.mock('../agents/base/Memory.js', () => ({
+  Memory: jest.fn().mockImplementation(() => ({
+    initialize: jest.fn().mockResolvedValue(undefined),
+    store: jest.fn().mockResolvedValue('test-id'),
+    recall: jest.fn().mockResolvedValue([]),
+    optimize: jest.fn().mockResolvedValue(undefined),
+    snapshot: jest.fn().mockReturnValue({ nodes: [] }),
+    restore: jest.fn().mockResolvedValue(undefined)
+  }))
+}));
+
+jest.mock('../roles/loader.js', () => ({
+  RoleLoader: jest.fn().mockImplementation(() => ({
+    loadRole: jest.fn().mockResolvedValue({
+      definition: {
+        name: 'Software Engineer',
+        description: 'Implements software features and writes code',
+        responsibilities: ['Write code'],
+        capabilities: { coding: 'Can write and review code' },
+        tools: { add: 'Adds two numbers' },
+        instructions: ['Use tools when they help']
+      },
+      context: {
+        state: {},
+        collaborators: new Map()
+      }
+    })
+  }))
+}));
+
+class AddTool extends BaseTool<{ a: number; b: number }, number> {
+  name = 'add';
+  description = 'Adds two numbers';
+  parameters: Parameter[] = [
+    { name: 'a', type: 'number', description: 'First operand', required: true },
+    { name: 'b', type: 'number', description: 'Second operand', required: true }
+  ];
+
+  protected async executeImpl(params: { a: number; b: number }): Promise<number> {
+    return params.a + params.b;
+  }
+}
+
+class GuardedAddTool extends AddTool {
+  name = 'guarded_add';
+  requiresApproval = true;
+}
+
+// Runs until its signal fires, recording whether it saw the abort
+class SlowTool extends BaseTool<Record<string, never>, string> {
+  name = 'slow';
+  description = 'Takes a long time';
+  parameters: Parameter[] = [];
+  abortedWith?: unknown;
+
+  protected executeImpl(_params: Record<string, never>, signal: AbortSignal): Promise<string> {
+    return new Promise((_, reject) => {
+      signal.addEventListener('abort', () => {
+        this.abortedWith = signal.reason;
+        reject(signal.reason);
+      });
+    });
+  }
+}
+
+class ScriptedApprovalHandler extends ApprovalHandler {
+  constructor(private readonly script: (handler: ScriptedApprovalHandler, request: ApprovalRequest) => void) {
+    super({ timeout: 1000 });
+  }
+
+  protected async dispatch(request: ApprovalRequest): Promise<void> {
+    this.script(this, request);
+  }
+}
+
+function textResponse(text: string): ConversationResponse {
+  return {
+    content: [{ type: 'text', text }],
+    stopReason: 'end_turn',
+    usage: { inputTokens: 10, outputTokens: 5 }
+  };
+}
+
+function toolUseResponse(id: string, name: string, input: unknown): ConversationResponse {
+  return {
+    content: [{ type: 'tool_use', id, name, input }],
+    stopReason: 'tool_use',
+    usage: { inputTokens: 10, outputTokens: 5 }
+  };
+}
+
+function createConfig(tools: AgentConfig['tools']): AgentConfig {
+  const claude = new ClaudeClient({ apiKey: 'test-key' });
+  return {
+    rolePath: 'src/roles/coder.json',
+    tools,
+    claude,
+    backplane: {
+      connect: jest.fn().mockResolvedValue(undefined),
+      disconnect: jest.fn().mockResolvedValue(undefined),
+      cleanup: jest.fn().mockResolvedValue(undefined),
+      getDiscoveryService: jest.fn().mockReturnValue({
+        registerAgent: jest.fn().mockResolvedValue(undefined),
+        unregisterAgent: jest.fn().mockResolvedValue(undefined),
+        updateAgentStatus: jest.fn().mockResolvedValue(undefined),
+        findAgents: jest.fn().mockResolvedValue([]),
+        watchAgents: jest.fn().mockResolvedValue(undefined)
+      }),
+      sendMessage: jest.fn().mockResolvedValue(undefined),
+      broadcastMessage: jest.fn().mockResolvedValue(undefined),
+      shareContext: jest.fn().mockResolvedValue(undefined),
+      findCollaborators: jest.fn().mockResolvedValue([]),
+      subscribe: jest.fn().mockResolvedValue(undefined),
+      unsubscribe: jest.fn().mockResolvedValue(undefined)
+    },
+    memory: new Memory({
+      shortTermLimit: 100,
+      summarizeInterval: '1h',
+      pruneThreshold: 0.5,
+      claude
+    }),
+    roleLoader: new RoleLoader()
+  };
+}
+
+describe('Agent tool-use loop', () => {
+  let config: AgentConfig;
+
+  beforeEach(() => {
+    mockConverse.mockReset();
+
+    config = createConfig([new AddTool()]);
+  });
+
+  test('advertises tools and feeds tool results back until end of turn', async () => {
+    mockConverse
+      .mockResolvedValueOnce(toolUseResponse('call-1', 'add', { a: 2, b: 3 }))
+      .mockResolvedValueOnce(textResponse('The sum is 5'));
+
+    const agent = new Agent(config);
+    await agent.init(config);
+    const result = await agent.execute({ goal: 'Math', task: 'Add 2 and 3', data: {} });
+
+    expect(result.success).toBe(true);
+    expect(result.result).toBe('The sum is 5');
+    expect(result.toolCalls).toHaveLength(1);
+    expect(result.toolCalls?.[0].result.output).toBe(5);
+
+    const [firstMessages, firstOptions] = mockConverse.mock.calls[0];
+    expect(firstMessages[0].role).toBe('user');
+    expect(firstOptions.tools[0]).toMatchObject({
+      name: 'add',
+      input_schema: { type: 'object', required: ['a', 'b'] }
+    });
+
+    const [secondMessages] = mockConverse.mock.calls[1];
+    expect(secondMessages[2]).toEqual({
+      role: 'user',
+      content: [{ type: 'tool_result', tool_use_id: 'call-1', content: '5', is_error: false }]
+    });
+  });
+
+  test('reports unknown tools back to the model as errors', async () => {
+    mockConverse
+      .mockResolvedValueOnce(toolUseResponse('call-1', 'deploy', {}))
+      .mockResolvedValueOnce(textResponse('Could not deploy'));
+
+    const agent = new Agent(config);
+    await agent.init(config);
+    const result = await agent.execute({ goal: 'Ship', task: 'Deploy', data: {} });
+
+    expect(result.success).toBe(true);
+    expect(result.toolCalls?.[0].result.success).toBe(false);
+    const [secondMessages] = mockConverse.mock.calls[1];
+    expect(secondMessages[2].content[0]).toMatchObject({ is_error: true });
+  });
+
+  test('sends conversation history ahead of the prompt', async () => {
+    mockConverse.mockResolvedValueOnce(textResponse('Use a schema'));
+    const config = createConfig([]);
+    const agent = new Agent(config);
+    await agent.init(config);
+
+    await agent.execute({
+      goal: 'Pair',
+      task: 'How should I validate it?',
+      data: {},
+      history: [
+        { role: 'user', content: 'I am building a login form' },
+        { role: 'assistant', content: 'Sounds good' }
+      ]
+    });
+
+    const [messages] = mockConverse.mock.calls[0];
+    expect(messages.slice(0, 2)).toEqual([
+      { role: 'user', content: 'I am building a login form' },
+      { role: 'assistant', content: 'Sounds good' }
+    ]);
+    expect(messages[2].content).toContain('Task: How should I validate it?');
+  });
+
+  test('stops at the iteration cap', async () => {
+    mockConverse.mockResolvedValue(toolUseResponse('call-n', 'add', { a: 1, b: 1 }));
+
+    const agent = new Agent({ ...config, maxToolIterations: 3 });
+    await agent.init(config);
+    const result = await agent.execute({ goal: 'Loop', task: 'Keep adding', data: {} });
+
+    expect(result.success).toBe(false);
+    expect(mockConverse).toHaveBeenCalledTimes(3);
+    expect(result.toolCalls).toHaveLength(3);
+  });
+
+  describe('approvals', () => {
+    test('denied calls never run and record the decision', async () => {
+      mockConverse
+        .mockResolvedValueOnce(toolUseResponse('call-1', 'guarded_add', { a: 2, b: 3 }))
+        .mockResolvedValueOnce(textResponse('Not allowed'));
+
+      const agentConfig = {
+        ...config,
+        tools: [new GuardedAddTool()],
+        approvalHandler: new ScriptedApprovalHandler((handler, request) =>
+          handler.deny(request.id, 'Arithmetic is frozen')
+        )
+      };
+      const agent = new Agent(agentConfig);
+      await agent.init(agentConfig);
+      const result = await agent.execute({ goal: 'Math', task: 'Add', data: {} });
+
+      const call = result.toolCalls?.[0];
+      expect(call?.result.success).toBe(false);
+      expect(call?.result.metadata.approval).toMatchObject({
+        decision: 'deny',
+        reason: 'Arithmetic is frozen'
+      });
+    });
+
+    test('modified calls run with the replacement parameters', async () => {
+      mockConverse
+        .mockResolvedValueOnce(toolUseResponse('call-1', 'guarded_add', { a: 2, b: 3 }))
+        .mockResolvedValueOnce(textResponse('Done'));
+
+      const agentConfig = {
+        ...config,
+        tools: [new GuardedAddTool()],
+        approvalHandler: new ScriptedApprovalHandler((handler, request) =>
+          handler.modify(request.id, { a: 10, b: 1 }, 'Use the corrected figures')
+        )
+      };
+      const agent = new Agent(agentConfig);
+      await agent.init(agentConfig);
+      const result = await agent.execute({ goal: 'Math', task: 'Add', data: {} });
+
+      const call = result.toolCalls?.[0];
+      expect(call?.result.output).toBe(11);
+      expect(call?.result.metadata.approval?.decision).toBe('modify');
+    });
+
+    test('backplane approvals time out to the configured decision', async () => {
+      const backplane = {
+        sendMessage: jest.fn().mockResolvedValue(undefined),
+        broadcastMessage: jest.fn().mockResolvedValue(undefined)
+      };
+      const handler = new BackplaneApprovalHandler({ backplane, approver: 'ops', timeout: 20 });
+
+      const record = await handler.requestApproval({
+        tool: 'deploy',
+        description: 'Deploys the service',
+        params: {},
+        requestedBy: 'coder'
+      });
+
+      expect(backplane.sendMessage).toHaveBeenCalledWith('ops', expect.objectContaining({ type: 'approval_request' }));
+      expect(record).toMatchObject({ decision: 'deny', timedOut: true });
+      expect(handler.getPending()).toHaveLength(0);
+    });
+
+    test('backplane approvals resolve from response messages', async () => {
+      const backplane = {
+        sendMessage: jest.fn().mockResolvedValue(undefined),
+        broadcastMessage: jest.fn().mockResolvedValue(undefined)
+      };
+      const handler = new BackplaneApprovalHandler({ backplane, timeout: 1000 });
+
+      const pending = handler.requestApproval({
+        tool: 'deploy',
+        description: 'Deploys the service',
+        params: {},
+        requestedBy: 'coder'
+      });
+      const [request] = handler.getPending();
+      handler.handleMessage({
+        type: 'approval_response',
+        content: { requestId: request.id, decision: 'approve', reason: 'Ship it', approver: 'lead' }
+      });
+
+      await expect(pending).resolves.toMatchObject({ decision: 'approve', approver: 'lead' });
+      expect(backplane.broadcastMessage).toHaveBeenCalled();
+    });
+
+    test('approval responses sent to the agent resume the tool call', async () => {
+      mockConverse
+        .mockResolvedValueOnce(toolUseResponse('call-1', 'guarded_add', { a: 2, b: 3 }))
+        .mockResolvedValueOnce(textResponse('The sum is 5'));
+
+      let deliver: (envelope: MessageEnvelope) => Promise<void> = async () => undefined;
+      const base = createConfig([new GuardedAddTool()]);
+      (base.backplane.subscribe as jest.Mock).mockImplementation(async (_id, handler) => {
+        deliver = handler;
+      });
+      const approvalHandler = new BackplaneApprovalHandler({ backplane: base.backplane, approver: 'ops' });
+      const agentConfig = { ...base, id: 'coder-1', approvalHandler };
+      const agent = new Agent(agentConfig);
+      await agent.init(agentConfig);
+
+      const running = agent.execute({ goal: 'Math', task: 'Add', data: {} });
+      while (approvalHandler.getPending().length === 0) {
+        await new Promise(resolve => setImmediate(resolve));
+      }
+      const [request] = approvalHandler.getPending();
+      await deliver(createEnvelope('ops', 'coder-1', {
+        type: 'approval_response',
+        content: { requestId: request.id, decision: 'approve', reason: 'Ship it', approver: 'ops' }
+      }));
+      const result = await running;
+
+      expect(base.backplane.sendMessage).toHaveBeenCalledWith('ops', expect.objectContaining({ type: 'approval_request' }));
+      expect(result.toolCalls?.[0]?.result).toMatchObject({
+        success: true,
+        output: 5,
+        metadata: { approval: { decision: 'approve', approver: 'ops' } }
+      });
+    });
+  });
+});
+
+describe('Agent memory integration', () => {
+  let config: AgentConfig;
+
+  beforeEach(() => {
+    mockConverse.mockReset();
+
+    config = createConfig([]);
+  });
+
+  test('injects recalled memories and stores the outcome', async () => {
+    const recall = config.memory.recall as jest.Mock;
+    const store = config.memory.store as jest.Mock;
+    recall.mockResolvedValueOnce([
+      { id: 'm1', type: 'fact', content: 'The project uses React', timestamp: new Date() },
+      { id: 'm2', type: 'learning', content: 'Prefer hooks over classes', timestamp: new Date() }
+    ]);
+    mockConverse.mockResolvedValueOnce(textResponse('Added the login form'));
+
+    const agent = new Agent({ ...config, memoryOptions: { recallLimit: 3, types: ['fact', 'learning'] } });
+    await agent.init(config);
+    await agent.execute({ goal: 'Add feature', task: 'Implement login', data: {} });
+
+    expect(recall).toHaveBeenCalledWith('Add feature\nImplement login', expect.objectContaining({
+      limit: 3,
+      type: ['fact', 'learning']
+    }));
+
+    const [messages] = mockConverse.mock.calls[0];
+    expect(messages[0].content).toContain('Relevant facts:\n- The project uses React');
+    expect(messages[0].content).toContain('Lessons learned:\n- Prefer hooks over classes');
+
+    const storedTypes = store.mock.calls.map(([node]) => node.type);
+    expect(storedTypes).toEqual(['experience', 'learning']);
+    expect(store.mock.calls[0][0].content).toContain('succeeded');
+  });
+});
+
+describe('Agent context threads', () => {
+  beforeEach(() => {
+    mockConverse.mockReset();
+  });
+
+  test('records each task as a closed thread visible to follow-up tasks', async () => {
+    mockConverse
+      .mockResolvedValueOnce({
+        content: [
+          { type: 'text', text: 'I will add the numbers' },
+          { type: 'tool_use', id: 'call-1', name: 'add', input: { a: 1, b: 2 } }
+        ],
+        stopReason: 'tool_use',
+        usage: { inputTokens: 10, outputTokens: 5 }
+      })
+      .mockResolvedValueOnce(textResponse('The sum is 3'))
+      .mockResolvedValueOnce(textResponse('Doubled it to 6'));
+
+    const config = createConfig([new AddTool()]);
+    const agent = new Agent(config);
+    await agent.init(config);
+
+    const first = await agent.execute({ goal: 'Math homework', task: 'Add 1 and 2', data: {} });
+    const thread = agent.getContext()?.getThread(first.threadId!);
+
+    expect(thread?.status).toBe('completed');
+    expect(thread?.nodes.map(n => n.type)).toEqual([
+      'communication',
+      'thought',
+      'action',
+      'result',
+      'result'
+    ]);
+
+    await agent.execute({ goal: 'Math homework', task: 'Double the sum', data: {} });
+    const [followUpMessages] = mockConverse.mock.calls[2];
+    expect(followUpMessages[0].content).toContain('Previous work on this goal:\n- Add 1 and 2');
+  });
+
+  test('conversation turns skip previous work, the task thread and learning extraction', async () => {
+    mockConverse
+      .mockResolvedValueOnce(textResponse('Validate on submit'))
+      .mockResolvedValueOnce(textResponse('Show them inline'));
+    mockComplete.mockClear();
+
+    const config = createConfig([]);
+    const agent = new Agent(config);
+    await agent.init(config);
+
+    const task = { goal: 'Pair on the login form', task: 'Where should validation live?', data: {} };
+    const first = await agent.execute(task, { conversation: true });
+    await agent.execute({ ...task, task: 'And the error messages?' }, { conversation: true });
+
+    expect(first.threadId).toBeUndefined();
+    expect(agent.getContext()?.findThreads()).toEqual([]);
+    const [secondMessages] = mockConverse.mock.calls[1];
+    expect(secondMessages[0].content).not.toContain('Previous work on this goal');
+    expect(mockComplete).not.toHaveBeenCalled();
+    expect((config.memory.store as jest.Mock).mock.calls.map(([node]) => node.type)).toEqual(['experience', 'experience']);
+  });
+});
+
+describe('Agent discovery registration', () => {
+  beforeEach(() => {
+    mockConverse.mockReset();
+  });
+
+  test('registers on init, reports busy while running and unregisters on stop', async () => {
+    mockConverse.mockResolvedValue(textResponse('Done'));
+
+    const config = createConfig([]);
+    const discovery = config.backplane.getDiscoveryService();
+    const agent = new Agent({ ...config, id: 'coder-1' });
+    await agent.init(config);
+
+    expect(discovery.registerAgent).toHaveBeenCalledWith(expect.objectContaining({
+      id: 'coder-1',
+      role: 'Software Engineer',
+      capabilities: ['coding'],
+      status: 'idle'
+    }));
+
+    await agent.execute({ goal: 'Work', task: 'Do it', data: {} });
+    expect((discovery.updateAgentStatus as jest.Mock).mock.calls).toEqual([
+      ['coder-1', 'busy'],
+      ['coder-1', 'idle']
+    ]);
+
+    await agent.stop();
+    expect(discovery.updateAgentStatus).toHaveBeenLastCalledWith('coder-1', 'offline');
+    expect(discovery.unregisterAgent).toHaveBeenCalledWith('coder-1');
+  });
+});
+
+describe('Agent lifecycle', () => {
+  beforeEach(() => {
+    mockConverse.mockReset();
+  });
+
+  test('moves through start, pause, resume and stop emitting events', async () => {
+    const config = createConfig([]);
+    const agent = new Agent({ ...config, id: 'coder-1' });
+    const transitions: string[] = [];
+    agent.watchLifecycle(event => transitions.push(`${event.from}->${event.to}`));
+
+    await agent.start();
+    await agent.pause();
+    await expect(agent.execute({ goal: 'Work', task: 'Do it', data: {} }))
+      .rejects.toThrow('Agent is paused and not accepting tasks');
+    await agent.resume();
+    await agent.stop();
+
+    expect(agent.getState()).toBe('stopped');
+    expect(transitions).toEqual([
+      'created->initializing',
+      'initializing->ready',
+      'ready->running',
+      'running->paused',
+      'paused->running',
+      'running->draining',
+      'draining->stopped'
+    ]);
+  });
+
+  test('lets in-flight tasks finish, rejects queued requests and flushes on stop', async () => {
+    let finishTask: (response: ConversationResponse) => void = () => undefined;
+    mockConverse.mockReturnValueOnce(new Promise(resolve => { finishTask = resolve; }));
+
+    let deliver: (envelope: MessageEnvelope) => Promise<void> = async () => undefined;
+    const config = createConfig([]);
+    (config.backplane.subscribe as jest.Mock).mockImplementation(async (_id, handler) => {
+      deliver = handler;
+    });
+    const agent = new Agent({ ...config, id: 'coder-1' });
+    await agent.start();
+
+    const task = { goal: 'Build', task: 'Implement login', data: {} };
+    const running = agent.execute(task);
+    await deliver(createEnvelope('pm-1', 'coder-1', { type: 'task_request', content: task }));
+
+    const stopped = agent.stop();
+    await new Promise(resolve => setImmediate(resolve));
+    expect(agent.getState()).toBe('draining');
+    expect(config.backplane.sendMessage).toHaveBeenCalledWith('pm-1', expect.objectContaining({
+      message: expect.objectContaining({ type: 'message_rejected', content: expect.objectContaining({ reason: 'stopping' }) })
+    }));
+
+    finishTask(textResponse('Implemented'));
+    const result = await running;
+    await stopped;
+
+    expect(result.success).toBe(true);
+    expect(agent.getState()).toBe('stopped');
+    expect(agent.getContext()?.findThreads({ status: ['active'] })).toEqual([]);
+    expect(config.memory.optimize).toHaveBeenCalled();
+    expect(config.backplane.unsubscribe).toHaveBeenCalledWith('coder-1');
+  });
+
+  test('stopping during init waits for it and then tears down what it registered', async () => {
+    const config = createConfig([]);
+    const loadRole = config.roleLoader.loadRole as jest.Mock;
+    const role = await loadRole();
+    let finishLoading: () => void = () => undefined;
+    loadRole.mockReturnValueOnce(new Promise(resolve => { finishLoading = () => resolve(role); }));
+    const agent = new Agent({ ...config, id: 'coder-1' });
+    const transitions: string[] = [];
+    agent.watchLifecycle(event => transitions.push(event.to));
+
+    const initializing = agent.init();
+    const stopped = agent.stop();
+    finishLoading();
+    await initializing;
+    await stopped;
+
+    expect(transitions).toEqual(['initializing', 'ready', 'draining', 'stopped']);
+    expect(config.backplane.unsubscribe).toHaveBeenCalledWith('coder-1');
+    expect(config.backplane.getDiscoveryService().unregisterAgent).toHaveBeenCalledWith('coder-1');
+  });
+
+  test('a second stop waits for the first to finish draining', async () => {
+    let finishTask: (response: ConversationResponse) => void = () => undefined;
+    mockConverse.mockReturnValueOnce(new Promise(resolve => { finishTask = resolve; }));
+    const config = createConfig([]);
+    const agent = new Agent({ ...config, id: 'coder-1' });
+    await agent.start();
+
+    const running = agent.execute({ goal: 'Build', task: 'Implement login', data: {} });
+    const first = agent.stop();
+    let secondDone = false;
+    const second = agent.stop().then(() => { secondDone = true; });
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(secondDone).toBe(false);
+    expect(agent.getState()).toBe('draining');
+
+    finishTask(textResponse('Implemented'));
+    await Promise.all([running, first, second]);
+    expect(agent.getState()).toBe('stopped');
+    expect(config.memory.optimize).toHaveBeenCalledTimes(1);
+  });
+
+  test('waits for cancelled tasks to wind down before unregistering and flushing', async () => {
+    mockConverse.mockImplementationOnce((_messages, options) => new Promise((_, reject) => {
+      options.signal.addEventListener('abort', () => setTimeout(() => reject(options.signal.reason), 20));
+    }));
+    const config = createConfig([]);
+    const agent = new Agent({ ...config, id: 'coder-1' });
+    await agent.start();
+    const inFlight: number[] = [];
+    (config.backplane.getDiscoveryService().unregisterAgent as jest.Mock).mockImplementation(async () => {
+      inFlight.push(agent.getActiveTasks().length);
+    });
+    (config.memory.optimize as jest.Mock).mockImplementation(async () => {
+      inFlight.push(agent.getActiveTasks().length);
+    });
+
+    const running = agent.execute({ goal: 'Build', task: 'Implement login', data: {} });
+    await new Promise(resolve => setImmediate(resolve));
+    await agent.stop({ timeout: 10 });
+
+    await expect(running).resolves.toMatchObject({ status: 'cancelled' });
+    expect(inFlight).toEqual([0, 0]);
+  });
+});
+
+describe('Agent inbox', () => {
+  let config: AgentConfig;
+  let deliver: (envelope: MessageEnvelope) => Promise<void>;
+
+  beforeEach(() => {
+    mockConverse.mockReset();
+    config = createConfig([]);
+    (config.backplane.subscribe as jest.Mock).mockImplementation(async (_id, handler) => {
+      deliver = handler;
+    });
+  });
+
+  test('dispatches messages by type and replies with the correlation id', async () => {
+    const agent = new Agent({ ...config, id: 'reviewer-1' });
+    agent.on('review_request', message => ({
+      type: 'review_response',
+      content: { approved: message.content.diff.length < 100 }
+    }));
+    await agent.init(config);
+
+    const request = createEnvelope('coder-1', 'reviewer-1', {
+      type: 'review_request',
+      content: { diff: '+ const a = 1;' }
+    });
+    await deliver(request);
+
+    expect(config.backplane.sendMessage).toHaveBeenCalledWith('coder-1', expect.objectContaining({
+      message: { type: 'review_response', content: { approved: true } },
+      metadata: expect.objectContaining({ correlationId: request.id })
+    }));
+  });
+
+  test('answers status pings', async () => {
+    const agent = new Agent({ ...config, id: 'coder-1' });
+    await agent.init(config);
+
+    await deliver(createEnvelope('pm-1', 'coder-1', { type: 'status_ping', content: null }));
+
+    const [, reply] = (config.backplane.sendMessage as jest.Mock).mock.calls[0];
+    expect(reply.message).toMatchObject({
+      type: 'status_pong',
+      content: { id: 'coder-1', status: 'idle', activeTasks: 0 }
+    });
+  });
+
+  test('rejects task requests when busy and the queue is full', async () => {
+    let finishTask: (response: ConversationResponse) => void = () => undefined;
+    mockConverse.mockReturnValueOnce(new Promise(resolve => { finishTask = resolve; }));
+
+    const agent = new Agent({ ...config, id: 'coder-1', inbox: { maxConcurrent: 1, maxQueueSize: 0 } });
+    await agent.init(config);
+
+    const task = { goal: 'Build', task: 'Implement login', data: {} };
+    const first = deliver(createEnvelope('pm-1', 'coder-1', { type: 'task_request', content: task }));
+    await new Promise(resolve => setImmediate(resolve));
+    await deliver(createEnvelope('pm-2', 'coder-1', { type: 'task_request', content: task }));
+
+    expect(config.backplane.sendMessage).toHaveBeenCalledWith('pm-2', expect.objectContaining({
+      message: expect.objectContaining({ type: 'message_rejected' })
+    }));
+
+    finishTask(textResponse('Implemented'));
+    await first;
+    expect(config.backplane.sendMessage).toHaveBeenCalledWith('pm-1', expect.objectContaining({
+      message: expect.objectContaining({ type: 'task_response' })
+    }));
+  });
+});
+
+describe('Agent delegation', () => {
+  beforeEach(() => {
+    mockConverse.mockReset();
+  });
+
+  function connect(configs: AgentConfig[], collaborators: string[]): void {
+    const handlers = new Map<string, (envelope: MessageEnvelope) => Promise<void>>();
+    for (const config of configs) {
+      config.backplane.subscribe = jest.fn().mockImplementation(async (id, handler) => {
+        handlers.set(id, handler);
+      });
+      config.backplane.sendMessage = jest.fn().mockImplementation(async (to, envelope) => {
+        // Round-trip through JSON like the real transport
+        const delivered = JSON.parse(JSON.stringify(envelope));
+        setImmediate(() => handlers.get(to)?.({ ...delivered, timestamp: new Date(delivered.timestamp) }));
+      });
+      config.backplane.findCollaborators = jest.fn().mockResolvedValue(collaborators);
+    }
+  }
+
+  test('retries with another collaborator after a timeout and passes parent context', async () => {
+    mockConverse.mockResolvedValue(textResponse('Implemented login'));
+
+    const pmConfig = { ...createConfig([]), id: 'pm-1', delegationTimeout: 50 };
+    const coderConfig = { ...createConfig([]), id: 'coder-2' };
+    // coder-1 is registered but never answers
+    connect([pmConfig, coderConfig], ['pm-1', 'coder-1', 'coder-2']);
+
+    const pm = new Agent(pmConfig);
+    const coder = new Agent(coderConfig);
+    await pm.init(pmConfig);
+    await coder.init(coderConfig);
+
+    const threadId = await pm.getContext()!.createThread({ goal: 'Ship auth' });
+    await pm.getContext()!.add({
+      type: 'thought',
+      content: 'Login must support SSO',
+      timestamp: new Date(),
+      threadId
+    });
+
+    const result = await pm.delegate(
+      { goal: 'Ship auth', task: 'Implement login', data: {} },
+      { role: 'Software Engineer', threadId }
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.agentId).toBe('coder-2');
+    expect(result.result).toBe('Implemented login');
+    expect(result.attempts.map(a => a.outcome)).toEqual(['timeout', 'completed']);
+
+    const [coderMessages] = mockConverse.mock.calls[0];
+    expect(coderMessages[0].content).toContain('[thought] Login must support SSO');
+  });
+
+  test('gets a rejection back straight away from a paused collaborator', async () => {
+    const pmConfig = { ...createConfig([]), id: 'pm-1' };
+    const coderConfig = { ...createConfig([]), id: 'coder-2' };
+    connect([pmConfig, coderConfig], ['coder-2']);
+
+    const pm = new Agent(pmConfig);
+    const coder = new Agent(coderConfig);
+    await pm.init(pmConfig);
+    await coder.start();
+    await coder.pause();
+
+    const result = await pm.delegate({ goal: 'Ship auth', task: 'Implement login', data: {} }, { role: 'Software Engineer' });
+
+    expect(result.success).toBe(false);
+    expect(result.attempts).toEqual([
+      { agentId: 'coder-2', outcome: 'rejected', error: 'Agent is paused and not accepting tasks' }
+    ]);
+    expect(mockConverse).not.toHaveBeenCalled();
+  });
+
+  test('fails cleanly when nobody matches', async () => {
+    const config = { ...createConfig([]), id: 'pm-1' };
+    connect([config], ['pm-1']);
+    const pm = new Agent(config);
+    await pm.init(config);
+
+    const result = await pm.delegate({ goal: 'Ship', task: 'Review', data: {} }, { role: 'Reviewer' });
+
+    expect(result.success).toBe(false);
+    expect(result.attempts).toEqual([]);
+  });
+});
+
+describe('Agent structured output', () => {
+  const schema = {
+    type: 'object' as const,
+    properties: {
+      files: { type: 'array' as const, items: { type: 'string' as const }, minItems: 1 },
+      summary: { type: 'string' as const }
+    },
+    required: ['files', 'summary']
+  };
+
+  beforeEach(() => {
+    mockConverse.mockReset();
+  });
+
+  test('sends validation errors back and returns the validated object', async () => {
+    mockConverse
+      .mockResolvedValueOnce(textResponse('{"files": []}'))
+      .mockResolvedValueOnce(textResponse('```json\n{"files": ["auth.ts"], "summary": "Added login"}\n```'));
+
+    const config = createConfig([]);
+    const agent = new Agent(config);
+    await agent.init(config);
+    const result = await agent.execute<{ files: string[]; summary: string }>({
+      goal: 'Build',
+      task: 'Implement login',
+      data: {},
+      outputSchema: schema
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.output).toEqual({ files: ['auth.ts'], summary: 'Added login' });
+
+    const [retryMessages] = mockConverse.mock.calls[1];
+    const correction = retryMessages[retryMessages.length - 1].content;
+    expect(correction).toContain('$.files must have at least 1 items');
+    expect(correction).toContain('$.summary is required');
+  });
+
+  test('gives up after the configured number of attempts', async () => {
+    mockConverse.mockResolvedValue(textResponse('Sure, here is the plan!'));
+
+    const config = createConfig([]);
+    const agent = new Agent(config);
+    await agent.init(config);
+    const result = await agent.execute({
+      goal: 'Build',
+      task: 'Implement login',
+      data: {},
+      outputSchema: schema,
+      maxValidationAttempts: 2
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.output).toBeUndefined();
+    expect(result.validationErrors?.[0].path).toBe('$');
+    expect(mockConverse).toHaveBeenCalledTimes(2);
+  });
+
+  test('reports an invalid pattern in the schema as a validation error', async () => {
+    mockConverse.mockResolvedValue(textResponse('{"branch": "main"}'));
+
+    const config = createConfig([]);
+    const agent = new Agent(config);
+    await agent.init(config);
+    const result = await agent.execute({
+      goal: 'Build',
+      task: 'Pick a branch',
+      data: {},
+      outputSchema: { type: 'object', properties: { branch: { type: 'string', pattern: '([a-z]' } } },
+      maxValidationAttempts: 1
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.validationErrors).toEqual([{
+      path: '$.branch',
+      message: expect.stringContaining('cannot be checked against pattern ([a-z]')
+    }]);
+  });
+});
+
+describe('Agent prompt templates', () => {
+  beforeEach(() => {
+    mockConverse.mockReset();
+  });
+
+  test('previews the same prompt execute sends, including per-task overrides', async () => {
+    mockConverse.mockResolvedValue(textResponse('Done'));
+
+    const config = createConfig([]);
+    const agent = new Agent(config);
+    await agent.init(config);
+
+    const task = {
+      goal: 'Ship login',
+      task: 'Write the handler',
+      data: {},
+      prompt: { sections: { tools: null, style: 'Follow the existing code style.' } }
+    };
+    const preview = await agent.previewPrompt(task);
+    await agent.execute(task);
+
+    expect(preview.sections.map(section => section.name)).toEqual([
+      'role', 'capabilities', 'instructions', 'style', 'task'
+    ]);
+    expect(mockConverse).toHaveBeenCalledTimes(1);
+    expect(mockConverse.mock.calls[0][0][0].content).toBe(preview.prompt);
+  });
+});
+
+describe('Agent cancellation', () => {
+  beforeEach(() => {
+    mockConverse.mockReset();
+  });
+
+  test('aborting execute stops the running tool and reports the task as cancelled', async () => {
+    const tool = new SlowTool();
+    const config = createConfig([tool]);
+    const agent = new Agent(config);
+    await agent.init(config);
+    mockConverse.mockResolvedValueOnce(toolUseResponse('call-1', 'slow', {}));
+
+    const controller = new AbortController();
+    const running = agent.execute({ goal: 'Work', task: 'Take forever', data: {} }, { signal: controller.signal });
+    await new Promise(resolve => setImmediate(resolve));
+    controller.abort(new Error('User pressed stop'));
+    const result = await running;
+
+    expect(mockConverse.mock.calls[0][1].signal.aborted).toBe(true);
+    expect((tool.abortedWith as Error).message).toBe('User pressed stop');
+    expect(result).toMatchObject({ success: false, status: 'cancelled', result: 'Task cancelled: User pressed stop' });
+    expect(mockConverse).toHaveBeenCalledTimes(1);
+  });
+
+  test('aborting execute settles a pending approval instead of waiting out its timeout', async () => {
+    const backplane = {
+      sendMessage: jest.fn().mockResolvedValue(undefined),
+      broadcastMessage: jest.fn().mockResolvedValue(undefined)
+    };
+    const approvalHandler = new BackplaneApprovalHandler({ backplane, timeout: 60000 });
+    const config = { ...createConfig([new GuardedAddTool()]), approvalHandler };
+    const agent = new Agent(config);
+    await agent.init(config);
+    mockConverse.mockResolvedValueOnce(toolUseResponse('call-1', 'guarded_add', { a: 2, b: 3 }));
+
+    const controller = new AbortController();
+    const running = agent.execute({ goal: 'Math', task: 'Add', data: {} }, { signal: controller.signal });
+    while (approvalHandler.getPending().length === 0) {
+      await new Promise(resolve => setImmediate(resolve));
+    }
+    controller.abort(new Error('User pressed stop'));
+    const result = await running;
+
+    expect(result).toMatchObject({ success: false, status: 'cancelled' });
+    expect(result.toolCalls?.[0]?.result.metadata.approval).toMatchObject({
+      decision: 'deny',
+      reason: 'Task was cancelled'
+    });
+    expect(approvalHandler.getPending()).toHaveLength(0);
+  });
+
+  test('a tool timeout aborts the implementation instead of leaving it running', async () => {
+    const tool = new SlowTool({ timeout: 20 });
+
+    const result = await tool.execute({});
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Tool execution timed out after 20ms');
+    expect((tool.abortedWith as Error).message).toBe('Tool execution timed out after 20ms');
+  });
+});
+
+describe('Agent budgets', () => {
+  beforeEach(() => {
+    mockConverse.mockReset();
+  });
+
+  test('stops with the partial result once the token budget is spent', async () => {
+    const config = createConfig([new AddTool()]);
+    const agent = new Agent(config);
+    await agent.init(config);
+    mockConverse.mockImplementation(async () => {
+      currentBudget()?.record('claude-3-5-sonnet-20241022', 400, 200);
+      return {
+        ...toolUseResponse('call-1', 'add', { a: 1, b: 2 }),
+        content: [
+          { type: 'text', text: 'Adding the first pair' },
+          { type: 'tool_use', id: 'call-1', name: 'add', input: { a: 1, b: 2 } }
+        ]
+      };
+    });
+
+    const result = await agent.execute(
+      { goal: 'Math', task: 'Add many numbers', data: {} },
+      { budget: { maxTokens: 1000 } }
+    );
+
+    expect(mockConverse).toHaveBeenCalledTimes(2);
+    expect(result).toMatchObject({
+      success: false,
+      status: 'budget_exceeded',
+      result: 'Adding the first pair',
+      usage: { calls: 2, totalTokens: 1200, exceeded: 'tokens' }
+    });
+    expect(result.toolCalls).toHaveLength(2);
+    expect(config.memory.store).not.toHaveBeenCalled();
+    expect(agent.getContext()?.getThread(result.threadId!)?.status).toBe('completed');
+  });
+});
+
+describe('Agent self-critique', () => {
+  beforeEach(() => {
+    mockConverse.mockReset();
+    mockComplete.mockClear();
+  });
+
+  test('revises the draft until the critique passes and records each round', async () => {
+    const config = createConfig([]);
+    const agent = new Agent({ ...config, critique: { maxRounds: 3, threshold: 0.8 } });
+    await agent.init(config);
+    mockConverse.mockResolvedValueOnce(textResponse('def login(): pass'));
+    mockComplete
+      .mockResolvedValueOnce('{"score": 0.4, "issues": ["No error handling"]}')
+      .mockResolvedValueOnce('def login():\n  try: authenticate()\n  except AuthError: deny()')
+      .mockResolvedValueOnce('{"score": 0.9, "issues": []}');
+
+    const result = await agent.execute({ goal: 'Ship login', task: 'Write the handler', data: {} });
+
+    expect(result.result).toBe('def login():\n  try: authenticate()\n  except AuthError: deny()');
+    expect(result.critique).toEqual([
+      expect.objectContaining({ round: 1, score: 0.4, passed: false, revision: expect.any(String) }),
+      expect.objectContaining({ round: 2, score: 0.9, passed: true })
+    ]);
+    expect(mockComplete.mock.calls[0][0]).toContain('Use tools when they help');
+
+    const thoughts = agent.getContext()?.getThread(result.threadId!)?.nodes
+      .filter(node => node.type === 'thought')
+      .map(node => node.content.split('\n')[0]);
+    expect(thoughts).toEqual(['Critique round 1 scored 0.4:', 'Revision 1:', 'Critique round 2 scored 0.9']);
+  });
+
+  test('tasks can opt out', async () => {
+    const config = createConfig([]);
+    const agent = new Agent({ ...config, critique: {} });
+    await agent.init(config);
+    mockConverse.mockResolvedValueOnce(textResponse('Done'));
+
+    const result = await agent.execute({ goal: 'Ship login', task: 'Write the handler', data: {}, critique: false });
+
+    expect(result.critique).toBeUndefined();
+    expect(mockComplete.mock.calls.some(([prompt]) => prompt.includes('Review this draft'))).toBe(false);
+  });
+
+  test('a run cancelled during critique stops with the latest draft instead of completing', async () => {
+    const config = createConfig([]);
+    const agent = new Agent({ ...config, critique: { maxRounds: 3, threshold: 0.8 } });
+    await agent.init(config);
+    const controller = new AbortController();
+    mockConverse.mockResolvedValueOnce(textResponse('def login(): pass'));
+    mockComplete
+      .mockResolvedValueOnce('{"score": 0.4, "issues": ["No error handling"]}')
+      .mockResolvedValueOnce('def login():\n  try: authenticate()\n  except AuthError: deny()')
+      .mockImplementationOnce(async () => {
+        controller.abort(new Error('User pressed stop'));
+        throw new Error('Request aborted');
+      });
+
+    const result = await agent.execute(
+      { goal: 'Ship login', task: 'Write the handler', data: {} },
+      { signal: controller.signal }
+    );
+
+    expect(result).toMatchObject({
+      success: false,
+      status: 'cancelled',
+      result: 'def login():\n  try: authenticate()\n  except AuthError: deny()'
+    });
+    expect(config.memory.store).not.toHaveBeenCalled();
+  });
+});
+
+describe('Agent checkpoints', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    mockConverse.mockReset();
+    dir = await fs.mkdtemp(join(tmpdir(), 'agent-checkpoint-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('saves an in-flight task and resumes it in a restored agent', async () => {
+    let finishTask: (response: ConversationResponse) => void = () => undefined;
+    mockConverse.mockReturnValueOnce(new Promise(resolve => { finishTask = resolve; }));
+
+    const config = createConfig([]);
+    const agent = new Agent({ ...config, id: 'coder-1' });
+    await agent.init(config);
+    (config.memory.snapshot as jest.Mock).mockReturnValue({
+      nodes: [{ id: 'm1', type: 'fact', content: 'Tests live in src/__tests__', timestamp: new Date() }]
+    });
+
+    const running = agent.execute({ goal: 'Build', task: 'Implement login', data: {} });
+    await new Promise(resolve => setImmediate(resolve));
+    const path = join(dir, 'coder-1.json');
+    await agent.checkpoint(path);
+    finishTask(textResponse('Implemented'));
+    await running;
+
+    const restoredConfig = createConfig([]);
+    const restored = await Agent.restore(path, restoredConfig);
+
+    expect(restored.getId()).toBe('coder-1');
+    expect(restored.getState()).toBe('ready');
+    expect(restoredConfig.roleLoader.loadRole).not.toHaveBeenCalled();
+    expect(restoredConfig.memory.restore).toHaveBeenCalledWith({
+      nodes: [expect.objectContaining({ id: 'm1', content: 'Tests live in src/__tests__' })]
+    });
+    expect(restored.getInterruptedTasks()).toEqual([{ goal: 'Build', task: 'Implement login', data: {} }]);
+    expect(restored.getContext()?.findThreads({ status: ['active'] })).toHaveLength(1);
+
+    mockConverse.mockResolvedValueOnce(textResponse('Implemented after restart'));
+    const [result] = await restored.resumeInterrupted();
+
+    expect(result).toMatchObject({ success: true, result: 'Implemented after restart' });
+    expect(restored.getContext()?.findThreads({ status: ['active'] })).toEqual([]);
+    const [messages] = mockConverse.mock.calls[1];
+    expect(messages[0].content).toContain('Previous work on this goal:');
+  });
+
+  test('rejects snapshots from a newer version', () => {
+    expect(() => migrateSnapshot({ version: SNAPSHOT_VERSION + 1 }))
+      .toThrow(`newer than supported version ${SNAPSHOT_VERSION}`);
+  });
+});
+
+describe('Agent plugins', () => {
+  beforeEach(() => {
+    mockConverse.mockReset();
+  });
+
+  test('runs hooks in priority then registration order and applies their changes', async () => {
+    const calls: string[] = [];
+    const plugin = (name: string, priority?: number): AgentPlugin => ({
+      name,
+      priority,
+      beforePrompt: prompt => {
+        calls.push(name);
+        return `${prompt}\n[${name}]`;
+      }
+    });
+
+    mockConverse
+      .mockResolvedValueOnce(toolUseResponse('call-1', 'add', { a: 2, b: 3 }))
+      .mockResolvedValueOnce(textResponse('My key is sk-12345'));
+
+    const config = createConfig([new AddTool()]);
+    const agent = new Agent({
+      ...config,
+      plugins: [
+        plugin('audit'),
+        plugin('inject', -1),
+        {
+          name: 'tools',
+          beforeToolCall: call => ({ ...call, input: { a: 10, b: 20 } }),
+          afterToolCall: record => ({ ...record, result: { ...record.result, output: (record.result.output as number) * 2 } })
+        },
+        {
+          name: 'redact',
+          afterResponse: result => ({ ...result, result: result.result.replace(/sk-\w+/g, '[redacted]') })
+        }
+      ]
+    });
+    await agent.init(config);
+
+    const result = await agent.execute({ goal: 'Math', task: 'Add numbers', data: {} });
+
+    expect(calls).toEqual(['inject', 'audit']);
+    const [messages] = mockConverse.mock.calls[0];
+    expect(messages[0].content).toMatch(/\[inject\]\n\[audit\]$/);
+    expect(result.toolCalls![0]).toMatchObject({ input: { a: 10, b: 20 }, result: { output: 60 } });
+    expect(result.result).toBe('My key is [redacted]');
+  });
+
+  test('reports errors to onError and fails the task when a hook throws', async () => {
+    const onError = jest.fn();
+    const config = createConfig([]);
+    const agent = new Agent({
+      ...config,
+      plugins: [
+        { name: 'strict', beforePrompt: () => { throw new Error('Prompt contains a secret'); } },
+        { name: 'observer', onError }
+      ]
+    });
+    await agent.init(config);
+
+    const result = await agent.execute({ goal: 'Build', task: 'Implement login', data: {} });
+
+    expect(result).toMatchObject({ success: false, result: 'Plugin strict failed in beforePrompt: Prompt contains a secret' });
+    expect(mockConverse).not.toHaveBeenCalled();
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ message: expect.stringContaining('Prompt contains a secret') }),
+      'task',
+      expect.objectContaining({ task: expect.objectContaining({ task: 'Implement login' }) })
+    );
+  });
+
+  test('lets onMessage rewrite incoming messages before they are handled', async () => {
+    const config = createConfig([]);
+    let deliver: (envelope: MessageEnvelope) => Promise<void> = async () => undefined;
+    (config.backplane.subscribe as jest.Mock).mockImplementation(async (_id, handler) => {
+      deliver = handler;
+    });
+    const handler = jest.fn();
+    const agent = new Agent({
+      ...config,
+      id: 'coder-1',
+      plugins: [{
+        name: 'tagger',
+        onMessage: message => ({ ...message, content: { ...message.content, tagged: true } })
+      }]
+    });
+    agent.on('note', handler);
+    await agent.init(config);
+
+    await deliver(createEnvelope('pm-1', 'coder-1', { type: 'note', content: { text: 'hi' } }));
+
+    expect(handler).toHaveBeenCalledWith(
+      { type: 'note', content: { text: 'hi', tagged: true } },
+      expect.anything()
+    );
+  });
+
+  test('rejects plugins with duplicate names', () => {
+    expect(() => new Agent({ ...createConfig([]), plugins: [{ name: 'a' }, { name: 'a' }] }))
+      .toThrow('Plugin names must be unique');
+  });
+});
+
+describe('Agent clarifying questions', () => {
+  class ManualClarificationHandler extends ClarificationHandler {
+    dispatched: ClarificationRequest[] = [];
+
+    protected async dispatch(request: ClarificationRequest): Promise<void> {
+      this.dispatched.push(request);
+    }
+  }
+
+  beforeEach(() => {
+    mockConverse.mockReset();
+  });
+
+  test('waits for input, then resumes with the answer in the thread', async () => {
+    mockConverse
+      .mockResolvedValueOnce(toolUseResponse('call-q', 'ask_clarification', {
+        question: 'Should login use email or username?',
+        options: ['email', 'username']
+      }))
+      .mockResolvedValueOnce(textResponse('Implemented email login'));
+
+    const handler = new ManualClarificationHandler();
+    const config = createConfig([]);
+    const agent = new Agent({ ...config, id: 'coder-1', clarificationHandler: handler });
+    await agent.init(config);
+
+    const running = agent.execute({ goal: 'Build', task: 'Implement login', data: {} });
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    expect(agent.getActiveTasks()).toEqual([expect.objectContaining({
+      state: 'waiting_for_input',
+      question: 'Should login use email or username?'
+    })]);
+    expect(handler.dispatched[0]).toMatchObject({ requestedBy: 'coder-1', options: ['email', 'username'] });
+
+    handler.answer(handler.dispatched[0].id, 'Email', 'alice');
+    const result = await running;
+
+    expect(result).toMatchObject({ success: true, result: 'Implemented email login' });
+    const [, firstOptions] = mockConverse.mock.calls[0];
+    expect(firstOptions.tools.map((tool: { name: string }) => tool.name)).toContain('ask_clarification');
+    const [secondMessages] = mockConverse.mock.calls[1];
+    expect(secondMessages[2].content[0]).toMatchObject({ tool_use_id: 'call-q', content: '{"answer":"Email"}' });
+
+    const thread = agent.getContext()!.getThread(result.threadId!)!;
+    expect(thread.nodes.map(node => node.content)).toEqual(expect.arrayContaining([
+      'Asked for clarification: Should login use email or username?',
+      'Answer from alice: Email'
+    ]));
+  });
+
+  test('tells the model to carry on when nobody answers in time', async () => {
+    mockConverse
+      .mockResolvedValueOnce(toolUseResponse('call-q', 'ask_clarification', { question: 'Which database?' }))
+      .mockResolvedValueOnce(textResponse('Assumed PostgreSQL'));
+
+    const config = createConfig([]);
+    const agent = new Agent({ ...config, clarificationHandler: new ManualClarificationHandler({ timeout: 10 }) });
+    await agent.init(config);
+
+    const result = await agent.execute({ goal: 'Build', task: 'Add persistence', data: {} });
+
+    expect(result.toolCalls![0].result).toMatchObject({
+      success: true,
+      output: { answer: null },
+      metadata: { clarification: expect.objectContaining({ timedOut: true }) }
+    });
+    expect(agent.getActiveTasks()).toEqual([]);
+  });
+
+  test('backplane questions resolve from response messages', async () => {
+    const backplane = {
+      sendMessage: jest.fn().mockResolvedValue(undefined),
+      broadcastMessage: jest.fn().mockResolvedValue(undefined)
+    };
+    const handler = new BackplaneClarificationHandler({ backplane, recipient: 'operator' });
+
+    const pending = handler.ask({ question: 'Which branch?', requestedBy: 'coder-1' });
+    const [, message] = backplane.sendMessage.mock.calls[0];
+    expect(message.type).toBe('clarification_request');
+
+    expect(handler.handleMessage({
+      type: 'clarification_response',
+      content: { requestId: message.content.id, answer: 'main', answeredBy: 'operator' }
+    })).toBe(true);
+    await expect(pending).resolves.toMatchObject({ answer: 'main', answeredBy: 'operator', question: 'Which branch?' });
+  });
+
+  test('answers sent to the agent over the backplane resume the task', async () => {
+    mockConverse
+      .mockResolvedValueOnce(toolUseResponse('call-q', 'ask_clarification', { question: 'Which branch?' }))
+      .mockResolvedValueOnce(textResponse('Pushed to main'));
+
+    let deliver: (envelope: MessageEnvelope) => Promise<void> = async () => undefined;
+    const config = createConfig([]);
+    (config.backplane.subscribe as jest.Mock).mockImplementation(async (_id, handler) => {
+      deliver = handler;
+    });
+    const handler = new BackplaneClarificationHandler({ backplane: config.backplane, recipient: 'operator' });
+    const agent = new Agent({ ...config, id: 'coder-1', clarificationHandler: handler });
+    await agent.init(config);
+
+    const running = agent.execute({ goal: 'Ship', task: 'Push the fix', data: {} });
+    while (handler.getPending().length === 0) {
+      await new Promise(resolve => setImmediate(resolve));
+    }
+    const [request] = handler.getPending();
+    await deliver(createEnvelope('operator', 'coder-1', {
+      type: 'clarification_response',
+      content: { requestId: request.id, answer: 'main', answeredBy: 'operator' }
+    }));
+    const result = await running;
+
+    expect(config.backplane.sendMessage)
+      .toHaveBeenCalledWith('operator', expect.objectContaining({ type: 'clarification_request' }));
+    expect(result).toMatchObject({ success: true, result: 'Pushed to main' });
+    expect(result.toolCalls?.[0]?.result.output).toEqual({ answer: 'main' });
+  });
+
+  test('console questions that time out are withdrawn so the next one gets the prompt', async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    let printed = '';
+    output.on('data', chunk => { printed += chunk; });
+    const handler = new ConsoleClarificationHandler({ input, output, timeout: 20 });
+
+    await expect(handler.ask({ question: 'Which branch?', requestedBy: 'coder-1' }))
+      .resolves.toMatchObject({ timedOut: true });
+
+    const next = handler.ask({ question: 'Which region?', requestedBy: 'coder-1' });
+    while (!printed.includes('Which region?')) {
+      await new Promise(resolve => setImmediate(resolve));
+    }
+    input.write('eu-west\n');
+
+    await expect(next).resolves.toMatchObject({ answer: 'eu-west', answeredBy: 'console' });
+  });
+});
+
+describe('Agent traces', () => {
+  beforeEach(() => {
+    mockConverse.mockReset();
+  });
+
+  test('replays recorded tool results without running the tool and reports where the run diverges', async () => {
+    const tool = new AddTool();
+    const executeSpy = jest.spyOn(tool, 'execute');
+    const config = createConfig([tool]);
+    const agent = new Agent(config);
+    await agent.init(config);
+    const task = { goal: 'Math', task: 'Add 2 and 3', data: {} };
+
+    mockConverse
+      .mockResolvedValueOnce(toolUseResponse('call-1', 'add', { a: 2, b: 3 }))
+      .mockResolvedValueOnce(textResponse('The sum is 5'));
+    const recorder = new TraceRecorder();
+    await agent.execute(task, { trace: recorder });
+
+    const trace = recorder.getTrace()!;
+    expect(trace.task).toEqual(task);
+    expect(trace.events).toEqual([
+      expect.objectContaining({ type: 'tool', call: { id: 'call-1', tool: 'add', input: { a: 2, b: 3 } } })
+    ]);
+    expect(executeSpy).toHaveBeenCalledTimes(1);
+
+    mockConverse
+      .mockResolvedValueOnce(toolUseResponse('call-1', 'add', { a: 2, b: 3 }))
+      .mockResolvedValueOnce(textResponse('The sum is 5'));
+    const replayer = new TraceReplayer(trace);
+    const replayed = await agent.execute(replayer.getTask(), { trace: replayer });
+
+    expect(executeSpy).toHaveBeenCalledTimes(1);
+    expect(replayed.toolCalls?.[0].result.output).toBe(5);
+    expect(replayed.toolCalls?.[0].result.metadata.startTime).toBeInstanceOf(Date);
+    expect(replayer.getDivergence()).toBeUndefined();
+
+    mockConverse
+      .mockResolvedValueOnce(toolUseResponse('call-1', 'add', { a: 2, b: 4 }))
+      .mockResolvedValueOnce(textResponse('The sum is 5'));
+    await agent.execute(replayer.getTask(), { trace: replayer });
+
+    expect(executeSpy).toHaveBeenCalledTimes(1);
+    expect(replayer.getDivergence()).toMatchObject({ index: 0, path: 'call.input.b', expected: 3, actual: 4 });
+  });
+});
+
+describe('Agent guardrails', () => {
+  beforeEach(() => {
+    mockConverse.mockReset();
+  });
+
+  test('redacts task data before it reaches Claude and rewrites the response', async () => {
+    const config = createConfig([]);
+    const agent = new Agent({ ...config, guardrails: [redactSecrets(), limitResponseLength(20, { action: 'rewrite' })] });
+    await agent.init(config);
+    mockConverse.mockResolvedValueOnce(textResponse('Rotated the key sk-abcdefghijklmnopqrstuvwxyz0123'));
+
+    const result = await agent.execute({
+      goal: 'Ops',
+      task: 'Rotate the key',
+      data: { apiKey: 'sk-abcdefghijklmnopqrstuvwxyz0123' }
+    });
+
+    const [messages] = mockConverse.mock.calls[0];
+    expect(JSON.stringify(messages)).not.toContain('sk-abcdefghijklmnopqrstuvwxyz0123');
+    expect(JSON.stringify(messages)).toContain('[REDACTED]');
+    expect(result).toMatchObject({ success: true, result: 'Rotated the key [RED' });
+    expect(result.guardrails?.map(entry => `${entry.stage}:${entry.guardrail}:${entry.field}`)).toEqual([
+      'input:redact-secrets:data.apiKey',
+      'output:redact-secrets:response',
+      'output:limit-response-length:response'
+    ]);
+  });
+
+  test('writes only the redacted task to a trace file', async () => {
+    const directory = await fs.mkdtemp(join(tmpdir(), 'guarded-trace-'));
+    try {
+      const config = createConfig([]);
+      const agent = new Agent({ ...config, guardrails: [redactSecrets()] });
+      await agent.init(config);
+      mockConverse.mockResolvedValueOnce(textResponse('Rotated'));
+
+      const path = join(directory, 'trace.json');
+      await agent.execute(
+        { goal: 'Ops', task: 'Rotate password=hunter2', data: { apiKey: 'sk-abcdefghijklmnopqrstuvwxyz0123' } },
+        { trace: new TraceRecorder(path) }
+      );
+
+      const written = await fs.readFile(path, 'utf-8');
+      expect(written).not.toContain('hunter2');
+      expect(written).not.toContain('sk-abcdefghijklmnopqrstuvwxyz0123');
+      expect(JSON.parse(written).task).toMatchObject({ task: 'Rotate password=[REDACTED]', data: { apiKey: '[REDACTED]' } });
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  test('rejects blocked tasks without calling Claude and withholds responses in the wrong format', async () => {
+    const config = createConfig([]);
+    const agent = new Agent({
+      ...config,
+      guardrails: [blockTopics(['exploit']), requireFormat({ pattern: /^Summary:/ })]
+    });
+    await agent.init(config);
+
+    const blocked = await agent.execute({ goal: 'Security', task: 'Write an exploit for the login page', data: {} });
+    expect(blocked).toMatchObject({
+      success: false,
+      status: 'rejected',
+      result: 'Task rejected by guardrail block-topics: Mentions forbidden topic "exploit"'
+    });
+    expect(mockConverse).not.toHaveBeenCalled();
+
+    mockConverse.mockResolvedValueOnce(textResponse('All done'));
+    const withheld = await agent.execute({ goal: 'Docs', task: 'Summarize the release', data: {} });
+    expect(withheld).toMatchObject({ success: false, status: 'rejected' });
+    expect(withheld.result).toContain('Response rejected by guardrail require-format');
+    expect(config.memory.store).not.toHaveBeenCalled();
+  });
+});
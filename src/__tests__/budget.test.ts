@@ -0,0 +1,77 @@
+import { BudgetExceededError, BudgetTracker, currentBudget, estimateCost } from '../budget/base.js';
+import { ClaudeClient } from '../claude/client.js';
+
+const mockCreate = jest.fn();
+
+jest.mock('@anthropic-ai/sdk', () => ({
+  __esModule: true,
+  default: jest.fn().mockImplementation(() => ({
+    messages: { create: mockCreate }
+  }))
+}));
+
+function usageResponse(inputTokens: number, outputTokens: number) {
+  return {
+    content: [{ type: 'text', text: 'ok' }],
+    stop_reason: 'end_turn',
+    usage: { input_tokens: inputTokens, output_tokens: outputTokens }
+  };
+}
+
+describe('BudgetTracker', () => {
+  beforeEach(() => {
+    mockCreate.mockReset();
+  });
+
+  test('estimates cost from per-model pricing', () => {
+    expect(estimateCost('claude-3-opus-20240229', 1_000_000, 1_000_000)).toBe(90);
+    expect(estimateCost('unknown-model', 1_000_000, 0)).toBe(3);
+  });
+
+  test('counts Claude calls made inside the budget scope and refuses new ones once exceeded', async () => {
+    mockCreate.mockResolvedValue(usageResponse(600, 500));
+    const claude = new ClaudeClient({ apiKey: 'test-key' });
+    const budget = new BudgetTracker({ maxTokens: 1000 });
+
+    await budget.run(async () => {
+      await claude.complete('First call');
+      await expect(claude.complete('Second call')).rejects.toThrow('Task budget exceeded: tokens');
+    });
+
+    expect(mockCreate).toHaveBeenCalledTimes(1);
+    expect(budget.exceeded).toBe('tokens');
+    expect(budget.signal.aborted).toBe(true);
+    expect(budget.getUsage()).toMatchObject({ calls: 1, totalTokens: 1100, exceeded: 'tokens' });
+
+    // Calls outside the scope are not counted
+    await claude.complete('Unbudgeted call');
+    expect(budget.getUsage().calls).toBe(1);
+  });
+
+  test('keeps concurrent budgets apart', async () => {
+    const first = new BudgetTracker({});
+    const second = new BudgetTracker({});
+
+    await Promise.all([
+      first.run(async () => {
+        await new Promise(resolve => setImmediate(resolve));
+        currentBudget()?.record('claude-3-5-sonnet-20241022', 10, 0);
+      }),
+      second.run(async () => {
+        currentBudget()?.record('claude-3-5-sonnet-20241022', 20, 0);
+      })
+    ]);
+
+    expect(first.getUsage().totalTokens).toBe(10);
+    expect(second.getUsage().totalTokens).toBe(20);
+  });
+
+  test('aborts when the time limit passes', async () => {
+    const budget = new BudgetTracker({ maxDuration: 10 });
+
+    await budget.run(() => new Promise(resolve => budget.signal.addEventListener('abort', resolve)));
+
+    expect(budget.exceeded).toBe('duration');
+    expect(budget.signal.reason).toBeInstanceOf(BudgetExceededError);
+  });
+});
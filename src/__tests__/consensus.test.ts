@@ -0,0 +1,152 @@
+import { Consensus } from '../consensus/base.js';
+import { AgentInfo } from '../backplane/types.js';
+import { AgentTask, TaskResult } from '../agents/base/Agent.js';
+
+function agentInfo(id: string, role: string): AgentInfo {
+  return { id, role, capabilities: [], status: 'idle', lastSeen: new Date(), metadata: {} };
+}
+
+function position(choice: string, rationale: string): TaskResult {
+  return { success: true, result: JSON.stringify({ choice, rationale }), output: { choice, rationale } };
+}
+
+function createConsensus(agents: AgentInfo[]) {
+  const agent = {
+    getId: jest.fn().mockReturnValue('pm-1'),
+    execute: jest.fn<Promise<TaskResult>, [AgentTask]>(),
+    delegate: jest.fn()
+  };
+  const findCollaborators = jest.fn(async (query: { role?: string }) =>
+    agents.filter(info => !query.role || info.role === query.role).map(info => info.id)
+  );
+
+  const consensus = new Consensus({
+    agent,
+    backplane: {
+      findCollaborators,
+      getDiscoveryService: jest.fn().mockReturnValue({
+        findAgents: jest.fn().mockResolvedValue(agents)
+      })
+    } as any
+  });
+
+  return { consensus, agent, findCollaborators };
+}
+
+const team = [
+  agentInfo('pm-1', 'Project Manager'),
+  agentInfo('dev-1', 'Software Engineer'),
+  agentInfo('dev-2', 'Software Engineer'),
+  agentInfo('rev-1', 'Code Reviewer')
+];
+
+describe('Consensus', () => {
+  test('majority vote picks the most common choice and keeps every rationale', async () => {
+    const { consensus, agent } = createConsensus(team);
+    const votes: Record<string, TaskResult> = {
+      'dev-1': position('Postgres', 'Relational data'),
+      'dev-2': position('postgres', 'Team knows it'),
+      'rev-1': position('Mongo', 'Flexible schema')
+    };
+    agent.delegate.mockImplementation(async (_task: AgentTask, options: { agentIds: string[] }) =>
+      votes[options.agentIds[0]]
+    );
+
+    const result = await consensus.decide({
+      question: 'Which database?',
+      voters: [{}],
+      strategy: 'majority'
+    });
+
+    expect(agent.delegate).toHaveBeenCalledTimes(3);
+    expect(result.decision).toBe('Postgres');
+    expect(result.tally).toEqual({ Postgres: 2, Mongo: 1 });
+    expect(result.rationale).toBe('Postgres won 2 of 3 votes (dev-1, dev-2)');
+    expect(result.ballots.map(ballot => ballot.rationale)).toEqual(['Relational data', 'Team knows it', 'Flexible schema']);
+    expect(result.ballots.find(ballot => ballot.agentId === 'dev-2')).toMatchObject({
+      role: 'Software Engineer',
+      choice: 'Postgres'
+    });
+  });
+
+  test('weighted vote applies role weights and reports ties without a decision', async () => {
+    const { consensus, agent } = createConsensus(team);
+    agent.delegate.mockImplementation(async (_task: AgentTask, options: { agentIds: string[] }) =>
+      options.agentIds[0] === 'rev-1' ? position('Reject', 'Missing tests') : position('Approve', 'Looks fine')
+    );
+
+    const weighted = await consensus.decide({
+      question: 'Merge the PR?',
+      options: ['Approve', 'Reject'],
+      voters: [{ role: 'Software Engineer' }, { role: 'Code Reviewer' }],
+      strategy: 'weighted',
+      weights: { 'Code Reviewer': 3 }
+    });
+
+    expect(weighted.decision).toBe('Reject');
+    expect(weighted.tally).toEqual({ Approve: 2, Reject: 3 });
+    expect(agent.delegate.mock.calls[0][0].outputSchema.properties.choice.enum).toEqual(['Approve', 'Reject']);
+
+    const tied = await consensus.decide({
+      question: 'Merge the PR?',
+      voters: [{ role: 'Software Engineer', limit: 1 }, { role: 'Code Reviewer' }],
+      strategy: 'weighted'
+    });
+
+    expect(tied.decision).toBeUndefined();
+    expect(tied.rationale).toBe('Tie between Approve, Reject');
+  });
+
+  test('debate shares positions between rounds and lets the judge decide', async () => {
+    const { consensus, agent, findCollaborators } = createConsensus(team);
+    agent.delegate.mockImplementation(async (task: AgentTask, options: { agentIds: string[] }) => {
+      const [id] = options.agentIds;
+      if (id === 'rev-1') return position('Rewrite', 'The arguments for a rewrite hold up better');
+      if (task.data?.otherPositions) return position('Rewrite', `${id} was convinced`);
+      return position(id === 'dev-1' ? 'Refactor' : 'Rewrite', `${id} opening`);
+    });
+
+    const result = await consensus.decide({
+      question: 'Refactor or rewrite?',
+      voters: [{ role: 'Software Engineer' }],
+      strategy: 'debate',
+      judge: { role: 'Code Reviewer' }
+    });
+
+    expect(result.rounds).toHaveLength(2);
+    expect(result.rounds[0].map(ballot => ballot.choice)).toEqual(['Refactor', 'Rewrite']);
+    expect(result.ballots.map(ballot => ballot.rationale)).toEqual(['dev-1 was convinced', 'dev-2 was convinced']);
+    expect(agent.delegate.mock.calls[2][0].data.otherPositions).toEqual([
+      { agentId: 'dev-2', role: 'Software Engineer', choice: 'Rewrite', rationale: 'dev-2 opening' }
+    ]);
+    expect(findCollaborators).toHaveBeenCalledWith({ role: 'Code Reviewer' });
+    expect(result.judge?.agentId).toBe('rev-1');
+    expect(result.decision).toBe('Rewrite');
+    expect(result.rationale).toBe('The arguments for a rewrite hold up better');
+  });
+
+  test('records voters that fail to answer and rejects requests with no voters', async () => {
+    const { consensus, agent } = createConsensus(team);
+    agent.delegate.mockImplementation(async (_task: AgentTask, options: { agentIds: string[] }) =>
+      options.agentIds[0] === 'dev-1'
+        ? { success: false, result: 'Timed out' }
+        : position('Yes', 'Fine by me')
+    );
+
+    const result = await consensus.decide({
+      question: 'Ship it?',
+      voters: [{ role: 'Software Engineer' }],
+      strategy: 'majority'
+    });
+
+    expect(result.decision).toBe('Yes');
+    expect(result.ballots[0]).toMatchObject({ agentId: 'dev-1', error: 'Timed out' });
+    expect(result.ballots[0].choice).toBeUndefined();
+
+    await expect(consensus.decide({
+      question: 'Ship it?',
+      voters: [{ role: 'Designer' }],
+      strategy: 'majority'
+    })).rejects.toThrow('No collaborators found to vote');
+  });
+});
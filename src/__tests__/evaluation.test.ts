@@ -0,0 +1,157 @@
+import { EvaluationRunner, compareReports } from '../evaluation/base.js';
+import { loadReport, saveReport } from '../evaluation/store.js';
+import { EvalReport, EvalSuite } from '../evaluation/types.js';
+import { ScriptedClaudeClient, ScriptedRequest } from '../claude/scripted.js';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const suite: EvalSuite = {
+  name: 'coder-basics',
+  rolePath: 'src/roles/coder.json',
+  cases: [
+    {
+      id: 'capital',
+      task: { goal: 'Answer questions', task: 'What is the capital of France?', data: {} },
+      checks: [{ type: 'exact', expected: 'paris', ignoreCase: true }]
+    },
+    {
+      id: 'function',
+      task: { goal: 'Write code', task: 'Write a function that adds two numbers', data: {} },
+      checks: [
+        { type: 'regex', pattern: 'function\\s+add' },
+        { type: 'judge', name: 'readable', rubric: 'The code is short and readable', weight: 3 }
+      ]
+    },
+    {
+      id: 'config',
+      task: { goal: 'Write config', task: 'Give the service config as JSON', data: {} },
+      checks: [{
+        type: 'schema',
+        schema: { type: 'object', required: ['port'], properties: { port: { type: 'integer', minimum: 1 } } }
+      }]
+    }
+  ]
+};
+
+// Answers each task from a table and grades every rubric with the given verdict
+function script(answers: Record<string, string>, verdict: { score: number; reasoning: string }) {
+  return (request: ScriptedRequest) => {
+    if (request.method === 'complete') {
+      return request.prompt.includes('Rubric:') ? JSON.stringify(verdict) : 'Nothing to add';
+    }
+    const prompt = JSON.stringify(request.messages[0].content);
+    const task = Object.keys(answers).find(key => prompt.includes(key));
+    return task ? answers[task] : 'I do not know';
+  };
+}
+
+const goodAnswers = {
+  'capital of France': 'Paris',
+  'adds two numbers': 'function add(a, b) { return a + b; }',
+  'service config': 'Here it is: {"port": 8080}'
+};
+
+describe('EvaluationRunner', () => {
+  test('runs each case offline against the role and scores every kind of check', async () => {
+    const claude = new ScriptedClaudeClient(script(goodAnswers, { score: 0.9, reasoning: 'Clear and short' }));
+    const report = await new EvaluationRunner({ claude }).run(suite);
+
+    expect(report).toMatchObject({ suite: 'coder-basics', rolePath: 'src/roles/coder.json', passed: 3, total: 3 });
+    expect(report.cases[0]).toMatchObject({ id: 'capital', passed: true, score: 1, response: 'Paris' });
+    expect(report.cases[1].checks).toEqual([
+      { name: 'regex-1', type: 'regex', passed: true, score: 1 },
+      { name: 'readable', type: 'judge', passed: true, score: 0.9, detail: 'Clear and short' }
+    ]);
+    expect(report.cases[1].score).toBeCloseTo(0.925);
+    expect(report.cases[2].checks[0].passed).toBe(true);
+
+    const judged = claude.getRequests().filter(request => request.method === 'complete' && request.prompt.includes('Rubric:'));
+    expect(judged).toHaveLength(1);
+  });
+
+  test('reports failed checks and compares against a saved baseline', async () => {
+    const directory = await fs.mkdtemp(join(tmpdir(), 'evaluation-'));
+    try {
+      const baselinePath = join(directory, 'baseline.json');
+      const runner = new EvaluationRunner({
+        claude: new ScriptedClaudeClient(script(goodAnswers, { score: 0.9, reasoning: 'Clear' }))
+      });
+      await saveReport(baselinePath, await runner.run(suite));
+
+      const worse = new EvaluationRunner({
+        claude: new ScriptedClaudeClient(script({
+          ...goodAnswers,
+          'capital of France': 'Lyon',
+          'service config': '{"port": 0}'
+        }, { score: 0.4, reasoning: 'Too clever' }))
+      });
+      const report = await worse.run(suite);
+
+      expect(report.passed).toBe(0);
+      expect(report.cases[0].checks[0].detail).toBe('Expected "paris"');
+      expect(report.cases[1].checks[1]).toMatchObject({ passed: false, score: 0.4 });
+      expect(report.cases[2].checks[0].detail).toContain('$.port');
+
+      const baseline = (await loadReport(baselinePath)) as EvalReport;
+      expect(baseline.startedAt).toBeInstanceOf(Date);
+      const comparison = compareReports(report, baseline);
+      expect(comparison.regressed).toBe(true);
+      expect(comparison.regressions.map(result => result.id)).toEqual(['capital', 'function', 'config']);
+      expect(comparison.regressions[1]).toMatchObject({ baseline: 0.925, wasPassing: true, passing: false });
+      expect(comparison.delta).toBeLessThan(0);
+
+      const trimmed = compareReports({ ...baseline, cases: baseline.cases.slice(1) }, { ...baseline });
+      expect(trimmed.removed).toEqual(['capital']);
+      expect(trimmed.regressions).toEqual([]);
+      expect(await loadReport(join(directory, 'missing.json'))).toBeNull();
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  test('a bad regex fails its own check instead of the whole case', async () => {
+    const claude = new ScriptedClaudeClient(script(goodAnswers, { score: 0.9, reasoning: 'Clear' }));
+    const report = await new EvaluationRunner({ claude }).run({
+      ...suite,
+      cases: [{
+        ...suite.cases[0],
+        checks: [{ type: 'regex', pattern: '(paris' }, { type: 'regex', pattern: 'paris', flags: 'iq' }, ...suite.cases[0].checks]
+      }]
+    });
+
+    expect(report.cases[0].error).toBeUndefined();
+    expect(report.cases[0].checks.map(check => check.passed)).toEqual([false, false, true]);
+    expect(report.cases[0].checks[0].detail).toContain('Invalid regular expression');
+    expect(report.cases[0].checks[1].detail).toContain('Invalid flags');
+  });
+
+  test('a schema with a bad pattern fails its own check instead of the whole case', async () => {
+    const claude = new ScriptedClaudeClient(script(
+      { ...goodAnswers, 'service config': '{"port": 8080, "host": "localhost"}' },
+      { score: 0.9, reasoning: 'Clear' }
+    ));
+    const report = await new EvaluationRunner({ claude }).run({
+      ...suite,
+      cases: [{
+        ...suite.cases[2],
+        checks: [
+          { type: 'schema', schema: { type: 'object', properties: { host: { type: 'string', pattern: '(local' } } } },
+          ...suite.cases[2].checks
+        ]
+      }]
+    });
+
+    expect(report.cases[0].error).toBeUndefined();
+    expect(report.cases[0].checks.map(check => check.passed)).toEqual([false, true]);
+    expect(report.cases[0].checks[0].detail).toContain('$.host cannot be checked against pattern (local');
+  });
+
+  test('a case whose task fails scores zero without running its checks', async () => {
+    const claude = new ScriptedClaudeClient([]);
+    const report = await new EvaluationRunner({ claude }).run({ ...suite, cases: [suite.cases[0]] });
+
+    expect(report.cases[0]).toMatchObject({ passed: false, score: 0, checks: [] });
+    expect(report.cases[0].error).toContain('no reply left');
+  });
+});
@@ -42,6 +42,7 @@ jest.mock('fs', () => ({
 jest.mock('../claude/client.js', () => ({
   ClaudeClient: jest.fn().mockImplementation(() => ({
     config: {},
+    withRole() { return this; },
     complete: jest.fn().mockImplementation(async (prompt) => {
       // Simulate response with metrics
       const responseLength = prompt.length * 0.5; // Simulate response being half the prompt length
@@ -106,7 +107,9 @@ jest.mock('../backplane/redis/index.js', () => ({
     sendMessage: jest.fn().mockResolvedValue(undefined),
     broadcastMessage: jest.fn().mockResolvedValue(undefined),
     shareContext: jest.fn().mockResolvedValue(undefined),
-    findCollaborators: jest.fn().mockResolvedValue([])
+    findCollaborators: jest.fn().mockResolvedValue([]),
+    subscribe: jest.fn().mockResolvedValue(undefined),
+    unsubscribe: jest.fn().mockResolvedValue(undefined)
   }))
 }));
 
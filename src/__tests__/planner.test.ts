@@ -0,0 +1,135 @@
+import { Planner, topologicalOrder } from '../planner/base.js';
+import { AgentInfo } from '../backplane/types.js';
+import { AgentTask, TaskResult } from '../agents/base/Agent.js';
+
+function agentInfo(id: string, role: string, capabilities: string[]): AgentInfo {
+  return { id, role, capabilities, status: 'idle', lastSeen: new Date(), metadata: {} };
+}
+
+function createPlanner(responses: string[], agents: AgentInfo[], maxReplans?: number) {
+  const complete = jest.fn();
+  responses.forEach(response => complete.mockResolvedValueOnce(response));
+
+  const agent = {
+    getId: jest.fn().mockReturnValue('pm-1'),
+    execute: jest.fn<Promise<TaskResult>, [AgentTask]>(),
+    delegate: jest.fn()
+  };
+
+  const planner = new Planner({
+    agent,
+    claude: { complete },
+    backplane: {
+      getDiscoveryService: jest.fn().mockReturnValue({
+        findAgents: jest.fn().mockResolvedValue(agents)
+      })
+    } as any,
+    maxParallel: 2,
+    maxReplans
+  });
+
+  return { planner, agent, complete };
+}
+
+describe('topologicalOrder', () => {
+  test('orders dependencies first and rejects cycles and unknown ids', () => {
+    expect(topologicalOrder([
+      { id: 'deploy', dependencies: ['build', 'test'] },
+      { id: 'test', dependencies: ['build'] },
+      { id: 'build', dependencies: [] }
+    ])).toEqual(['build', 'test', 'deploy']);
+
+    expect(() => topologicalOrder([
+      { id: 'a', dependencies: ['b'] },
+      { id: 'b', dependencies: ['a'] }
+    ])).toThrow('dependency cycle');
+
+    expect(() => topologicalOrder([{ id: 'a', dependencies: ['missing'] }]))
+      .toThrow('unknown task missing');
+  });
+});
+
+describe('Planner', () => {
+  const plan = JSON.stringify({
+    tasks: [
+      { id: 'model', description: 'Write the data model', dependencies: [], role: 'Software Engineer' },
+      { id: 'api', description: 'Write the API', dependencies: [], capabilities: ['coding'] },
+      { id: 'review', description: 'Review the code', dependencies: ['model', 'api'], role: 'Project Manager' }
+    ]
+  });
+
+  test('runs independent subtasks in parallel and routes each to the best match', async () => {
+    const { planner, agent } = createPlanner([plan], [
+      agentInfo('pm-1', 'Project Manager', ['planning']),
+      agentInfo('coder-1', 'Software Engineer', ['coding'])
+    ]);
+
+    const inFlight: string[] = [];
+    let maxInFlight = 0;
+    agent.delegate.mockImplementation(async (task: AgentTask) => {
+      inFlight.push(task.task);
+      maxInFlight = Math.max(maxInFlight, inFlight.length);
+      await new Promise(resolve => setImmediate(resolve));
+      inFlight.splice(inFlight.indexOf(task.task), 1);
+      return { success: true, result: `done: ${task.task}`, agentId: 'coder-1', attempts: [] };
+    });
+    agent.execute.mockResolvedValue({ success: true, result: 'Looks good' });
+
+    const result = await planner.run('Build a todo API');
+
+    expect(result.success).toBe(true);
+    expect(maxInFlight).toBe(2);
+    expect(agent.delegate).toHaveBeenCalledWith(
+      expect.objectContaining({ task: 'Write the data model' }),
+      expect.objectContaining({ agentIds: ['coder-1'] })
+    );
+    expect(agent.execute).toHaveBeenCalledTimes(1);
+    expect(agent.execute.mock.calls[0][0].data.dependencies).toEqual({
+      model: 'done: Write the data model',
+      api: 'done: Write the API'
+    });
+    expect(result.plan.tasks.map(task => task.assignedTo)).toEqual(['coder-1', 'coder-1', 'pm-1']);
+  });
+
+  test('re-plans the remaining work when a subtask fails', async () => {
+    const replacement = JSON.stringify({
+      tasks: [
+        { id: 'api-v2', description: 'Write the API with a simpler framework', dependencies: ['model'] },
+        { id: 'review-v2', description: 'Review the code', dependencies: ['model', 'api-v2'] }
+      ]
+    });
+    const { planner, agent, complete } = createPlanner([plan, replacement], []);
+
+    agent.execute.mockImplementation(async task =>
+      task.task === 'Write the API'
+        ? { success: false, result: 'Framework not installed' }
+        : { success: true, result: `done: ${task.task}` }
+    );
+
+    const result = await planner.run('Build a todo API');
+
+    expect(result.success).toBe(true);
+    expect(result.replans).toBe(1);
+    expect(result.plan.revision).toBe(1);
+    expect(result.plan.tasks.map(task => task.id)).toEqual(['model', 'api-v2', 'review-v2']);
+    expect(complete.mock.calls[1][0]).toContain('Error: Framework not installed');
+    expect(agent.execute).toHaveBeenCalledWith(expect.objectContaining({
+      task: 'Review the code',
+      data: expect.objectContaining({ dependencies: { model: 'done: Write the data model', 'api-v2': expect.any(String) } })
+    }));
+  });
+
+  test('skips dependents once re-planning is exhausted', async () => {
+    const { planner, agent } = createPlanner([plan], [], 0);
+    agent.execute.mockImplementation(async task =>
+      task.task === 'Write the API'
+        ? { success: false, result: 'Broken' }
+        : { success: true, result: 'ok' }
+    );
+
+    const result = await planner.run('Build a todo API');
+
+    expect(result.success).toBe(false);
+    expect(result.plan.tasks.map(task => task.status)).toEqual(['completed', 'failed', 'skipped']);
+  });
+});
@@ -0,0 +1,78 @@
+import { interpolate, PromptBuilder } from '../prompts/base.js';
+import { validateRole } from '../roles/types.js';
+
+const variables = {
+  role: {
+    name: 'Code Reviewer',
+    description: 'Reviews pull requests',
+    responsibilities: 'Find bugs',
+    capabilities: '- review: Can review code',
+    tools: '',
+    instructions: 'Be specific'
+  },
+  memories: '',
+  previousWork: '',
+  parentContext: 'Context from the delegating agent:\n[thought] Focus on auth',
+  task: { goal: 'Ship login', task: 'Review the diff', data: '{}' },
+  outputSchema: ''
+};
+
+describe('interpolate', () => {
+  test('fills nested placeholders and blanks missing ones', () => {
+    expect(interpolate('{{ role.name }} / {{task.goal}} / {{missing.value}}', variables))
+      .toBe('Code Reviewer / Ship login / ');
+  });
+});
+
+describe('PromptBuilder', () => {
+  test('renders the default sections in order and drops empty ones', () => {
+    const sections = new PromptBuilder().renderSections(variables);
+
+    expect(sections.map(section => section.name)).toEqual([
+      'role', 'capabilities', 'tools', 'instructions', 'context', 'task'
+    ]);
+    expect(sections[0].content).toBe('You are a Code Reviewer.\nReviews pull requests\n\nYour responsibilities include:\nFind bugs');
+  });
+
+  test('layers role templates and per-task overrides', () => {
+    const role = new PromptBuilder({
+      sections: {
+        capabilities: 'You can: {{role.capabilities}}',
+        checklist: 'Checklist:\n- Tests\n- Security',
+        tools: null
+      }
+    });
+    const perTask = role.withOverrides({ sections: { checklist: 'Checklist:\n- Performance' } });
+
+    expect(role.getSections().map(section => section.name)).toEqual([
+      'role', 'capabilities', 'instructions', 'memory', 'context', 'checklist', 'task'
+    ]);
+    expect(role.render(variables)).toContain('You can: - review: Can review code');
+    expect(role.render(variables)).not.toContain('Available tools:');
+    expect(perTask.render(variables)).toContain('Checklist:\n- Performance');
+    expect(perTask.render(variables)).not.toContain('Available tools:');
+  });
+
+  test('honours an explicit section order', () => {
+    const builder = new PromptBuilder({ order: ['task', 'role'] });
+    const sections = builder.renderSections(variables);
+
+    expect(sections.map(section => section.name)).toEqual(['task', 'role']);
+  });
+});
+
+describe('role prompt validation', () => {
+  test('rejects templates that are not strings', () => {
+    const errors = validateRole({
+      name: 'Reviewer',
+      description: 'Reviews code',
+      responsibilities: [],
+      capabilities: {},
+      tools: {},
+      instructions: [],
+      prompts: { sections: { role: 42 }, order: 'role' }
+    });
+
+    expect(errors.map(error => error.field)).toEqual(['prompts.sections.role', 'prompts.order']);
+  });
+});
@@ -0,0 +1,145 @@
+import { CronSchedule, parseInterval, Scheduler } from '../scheduler/base.js';
+import { FileSchedulerStore, InMemorySchedulerStore } from '../scheduler/store.js';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const START = new Date(2026, 0, 5, 9, 0, 0).getTime(); // Monday 09:00 local time
+
+describe('schedules', () => {
+  test('parses interval strings', () => {
+    expect(parseInterval('500ms')).toBe(500);
+    expect(parseInterval('30s')).toBe(30000);
+    expect(parseInterval('1h')).toBe(3600000);
+    expect(() => parseInterval('0m')).toThrow('Invalid interval');
+    expect(() => parseInterval('hourly')).toThrow('Invalid interval');
+  });
+
+  test('finds the next cron time', () => {
+    const after = new Date(START);
+    expect(new CronSchedule('*/15 * * * *').next(after)).toEqual(new Date(2026, 0, 5, 9, 15));
+    expect(new CronSchedule('30 2 * * *').next(after)).toEqual(new Date(2026, 0, 6, 2, 30));
+    expect(new CronSchedule('0 9 * * 6,7').next(after)).toEqual(new Date(2026, 0, 10, 9, 0));
+    expect(new CronSchedule('0 0 1 3 *').next(after)).toEqual(new Date(2026, 2, 1, 0, 0));
+    expect(() => new CronSchedule('61 * * * *')).toThrow('Invalid cron minute');
+    expect(() => new CronSchedule('0 0 30 2 *').next(after)).toThrow('never fires');
+  });
+});
+
+describe('Scheduler', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: START });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('runs interval jobs and skips runs that would overlap', async () => {
+    let finish: () => void = () => undefined;
+    const run = jest.fn(() => new Promise<void>(resolve => { finish = resolve; }));
+    const scheduler = new Scheduler();
+    scheduler.add({ id: 'report', schedule: '1m', run });
+    await scheduler.start();
+
+    await jest.advanceTimersByTimeAsync(60000);
+    expect(run).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(60000);
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(scheduler.getJobs()[0]).toMatchObject({ running: 1, skipped: 1 });
+
+    finish();
+    await jest.advanceTimersByTimeAsync(60000);
+    expect(run).toHaveBeenCalledTimes(2);
+    expect(scheduler.getJobs()[0]).toMatchObject({ runs: 1, lastRunAt: new Date(START + 180000) });
+
+    finish();
+    await scheduler.stop();
+  });
+
+  test('continues from the persisted last run instead of firing again after a restart', async () => {
+    const store = new InMemorySchedulerStore();
+    await store.save('digest', new Date(START - 20 * 60000));
+    await store.save('cleanup', new Date(START - 2 * 3600000));
+
+    const digest = jest.fn().mockResolvedValue(undefined);
+    const cleanup = jest.fn().mockResolvedValue(undefined);
+    const scheduler = new Scheduler({ store });
+    scheduler.add({ id: 'digest', schedule: '1h', run: digest });
+    scheduler.add({ id: 'cleanup', schedule: '1h', run: cleanup });
+    await scheduler.start();
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(cleanup).toHaveBeenCalledTimes(1); // Missed while down, so it catches up once
+    expect(digest).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(40 * 60000);
+    expect(digest).toHaveBeenCalledTimes(1);
+    expect(cleanup).toHaveBeenCalledTimes(1);
+    expect((await store.load()).digest).toEqual(new Date(START + 40 * 60000));
+
+    await scheduler.stop();
+  });
+
+  test('adds up to the configured jitter to each run', async () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+    const run = jest.fn().mockResolvedValue(undefined);
+    const scheduler = new Scheduler();
+    scheduler.add({ id: 'sync', schedule: '10s', jitter: 4000, run });
+    await scheduler.start();
+
+    await jest.advanceTimersByTimeAsync(11999);
+    expect(run).not.toHaveBeenCalled();
+    await jest.advanceTimersByTimeAsync(1);
+    expect(run).toHaveBeenCalledTimes(1);
+
+    await scheduler.stop();
+    jest.spyOn(Math, 'random').mockRestore();
+  });
+
+  test('schedules agent tasks and memory maintenance', async () => {
+    const agent = { execute: jest.fn().mockResolvedValue({ success: false, result: 'No reviewers online' }) };
+    const memory = { optimize: jest.fn().mockResolvedValue(undefined), getSummarizeInterval: () => '1h' };
+    const context = { optimize: jest.fn().mockResolvedValue(undefined) };
+    const scheduler = new Scheduler();
+    scheduler.addAgentTask('standup', '0 10 * * 1-5', agent, { goal: 'Team', task: 'Post standup', data: {} });
+    scheduler.addMaintenance('upkeep', { memory, context });
+    await scheduler.start();
+
+    await jest.advanceTimersByTimeAsync(3600000);
+
+    expect(memory.optimize).toHaveBeenCalledTimes(1);
+    expect(context.optimize).toHaveBeenCalledTimes(1);
+    expect(agent.execute).toHaveBeenCalledWith({ goal: 'Team', task: 'Post standup', data: {} }, undefined);
+    expect(scheduler.getJobs().find(job => job.id === 'standup')).toMatchObject({
+      failures: 1,
+      lastError: 'No reviewers online'
+    });
+
+    await scheduler.stop();
+  });
+});
+
+describe('FileSchedulerStore', () => {
+  test('round-trips last-run times', async () => {
+    const dir = await fs.mkdtemp(join(tmpdir(), 'scheduler-'));
+    const path = join(dir, 'nested', 'last-runs.json');
+
+    try {
+      const store = new FileSchedulerStore(path);
+      expect(await store.load()).toEqual({});
+      await Promise.all([
+        store.save('digest', new Date(START)),
+        store.save('cleanup', new Date(START + 1000))
+      ]);
+
+      expect(await new FileSchedulerStore(path).load()).toEqual({
+        digest: new Date(START),
+        cleanup: new Date(START + 1000)
+      });
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,88 @@
+import { Session, SessionConfig } from '../session/base.js';
+import { FileSessionStore, InMemorySessionStore } from '../session/store.js';
+import { AgentTask, TaskResult } from '../agents/base/Agent.js';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+function createAgent() {
+  return {
+    getId: () => 'coder-1',
+    getContext: () => null,
+    execute: jest.fn<Promise<TaskResult>, [AgentTask, any?]>()
+      .mockImplementation(async task => ({ success: true, result: `Reply to ${task.task}` }))
+  };
+}
+
+describe('Session', () => {
+  test('sends earlier turns as history with each new message', async () => {
+    const agent = createAgent();
+    const session = await Session.start({ agent, goal: 'Pair on the login form' });
+
+    await session.send('Where should validation live?');
+    await session.send('And the error messages?');
+
+    const [task, options] = agent.execute.mock.calls[1];
+    expect(task).toMatchObject({ goal: 'Pair on the login form', task: 'And the error messages?' });
+    expect(options).toMatchObject({ conversation: true });
+    expect(task.history).toEqual([
+      { role: 'user', content: 'Where should validation live?' },
+      { role: 'assistant', content: 'Reply to Where should validation live?' }
+    ]);
+    expect(session.getHistory()).toHaveLength(4);
+  });
+
+  test('leaves history unchanged when a turn fails', async () => {
+    const agent = createAgent();
+    agent.execute.mockResolvedValueOnce({ success: false, result: 'Task cancelled: stop', status: 'cancelled' });
+    const session = await Session.start({ agent });
+
+    const result = await session.send('Refactor the form');
+
+    expect(result.status).toBe('cancelled');
+    expect(session.getHistory()).toEqual([]);
+  });
+
+  test('summarizes old turns through the context once history grows too long', async () => {
+    const agent = createAgent();
+    const context = { summarizeNodes: jest.fn().mockResolvedValue('They agreed to validate on submit.') };
+    const session = await Session.start({ agent, context, maxTurns: 4, keepTurns: 2 });
+
+    await session.send('one');
+    await session.send('two');
+    await session.send('three');
+
+    expect(context.summarizeNodes).toHaveBeenCalledWith([
+      { type: 'communication', content: 'user: one' },
+      { type: 'communication', content: 'assistant: Reply to one' },
+      { type: 'communication', content: 'user: two' },
+      { type: 'communication', content: 'assistant: Reply to two' }
+    ]);
+    expect(session.getHistory().map(turn => turn.content)).toEqual(['three', 'Reply to three']);
+
+    await session.send('four');
+    const [task] = agent.execute.mock.calls[3];
+    expect(task.history![0].content).toBe('Summary of our earlier conversation:\nThey agreed to validate on submit.\n\nthree');
+  });
+
+  test('resumes a saved session by id', async () => {
+    const dir = await fs.mkdtemp(join(tmpdir(), 'sessions-'));
+    try {
+      const config: SessionConfig = { agent: createAgent(), store: new FileSessionStore(dir) };
+      const session = await Session.start(config);
+      await session.send('Start the login form');
+
+      const agent = { ...createAgent(), getId: () => 'coder-2' };
+      const resumed = await Session.resume(session.getId(), { agent, store: new FileSessionStore(dir) });
+      await resumed.send('Now add tests');
+
+      expect(agent.execute.mock.calls[0][0].history).toHaveLength(2);
+      expect(resumed.getHistory()[0]).toMatchObject({ role: 'user', content: 'Start the login form' });
+      expect(resumed.getHistory()[0].timestamp).toBeInstanceOf(Date);
+      await expect(Session.resume('missing', { agent, store: new InMemorySessionStore() }))
+        .rejects.toThrow('Session not found: missing');
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,204 @@
+import { RedisTaskQueue } from '../backplane/redis/task-queue.js';
+import { QueueWorker } from '../agents/base/QueueWorker.js';
+import { TaskResult } from '../agents/base/Agent.js';
+import { LifecycleState } from '../agents/base/Lifecycle.js';
+
+// Just enough of the Redis client for the queue: strings, sorted sets, lists and MULTI
+class FakeRedis {
+  strings = new Map<string, string>();
+  zsets = new Map<string, Map<string, number>>();
+  lists = new Map<string, string[]>();
+
+  async set(key: string, value: string) { this.strings.set(key, value); }
+  async get(key: string) { return this.strings.get(key) ?? null; }
+
+  async zAdd(key: string, member: { score: number; value: string }, options: { XX?: boolean } = {}) {
+    const zset = this.zsets.get(key) ?? new Map<string, number>();
+    this.zsets.set(key, zset);
+    if (options.XX && !zset.has(member.value)) return 0;
+    const changed = zset.get(member.value) !== member.score ? 1 : 0;
+    zset.set(member.value, member.score);
+    return changed;
+  }
+
+  async zRem(key: string, member: string) {
+    return this.zsets.get(key)?.delete(member) ? 1 : 0;
+  }
+
+  async zRange(key: string, start: number, stop: number) {
+    return this.sorted(key).slice(start, stop + 1).map(([member]) => member);
+  }
+
+  async zRangeByScore(key: string, min: number, max: number) {
+    return this.sorted(key).filter(([, score]) => score >= min && score <= max).map(([member]) => member);
+  }
+
+  async lPush(key: string, value: string) {
+    this.lists.set(key, [value, ...(this.lists.get(key) ?? [])]);
+  }
+
+  async lRange(key: string) {
+    return this.lists.get(key) ?? [];
+  }
+
+  multi() {
+    const queued: Array<() => Promise<unknown>> = [];
+    const chain: any = new Proxy({}, {
+      get: (_, name: string) => name === 'exec'
+        ? async () => { for (const run of queued) await run(); }
+        : (...args: unknown[]) => {
+            queued.push(() => (this as any)[name](...args));
+            return chain;
+          }
+    });
+    return chain;
+  }
+
+  private sorted(key: string): Array<[string, number]> {
+    return Array.from(this.zsets.get(key)?.entries() ?? []).sort((a, b) => a[1] - b[1]);
+  }
+}
+
+const engineer = { role: 'Software Engineer', capabilities: ['coding', 'testing'] };
+const task = { goal: 'Build', task: 'Implement login', data: {} };
+
+function createQueue() {
+  return new RedisTaskQueue(new FakeRedis() as any, 'test:');
+}
+
+describe('RedisTaskQueue', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('only hands tasks to workers with the required role and capabilities', async () => {
+    const queue = createQueue();
+    const id = await queue.enqueue(task, { role: 'Software Engineer', capabilities: ['coding'] });
+
+    expect(await queue.claim('pm-1', { role: 'Project Manager', capabilities: ['coding'] })).toBeNull();
+    const claimed = await queue.claim('coder-1', engineer);
+
+    expect(claimed).toMatchObject({ id, status: 'claimed', claimedBy: 'coder-1', attempts: 1, task });
+    expect(await queue.claim('coder-2', engineer)).toBeNull();
+
+    expect(await queue.ack(id, 'coder-1', { result: 'done' })).toBe(true);
+    expect(await queue.getStatus(id)).toMatchObject({ status: 'completed', result: { result: 'done' } });
+    expect(await queue.ack(id, 'coder-1')).toBe(false);
+  });
+
+  test('releases expired claims and ignores late acknowledgements from the old worker', async () => {
+    jest.useFakeTimers({ now: 1_000_000 });
+    const queue = createQueue();
+    const id = await queue.enqueue(task);
+
+    await queue.claim('coder-1', { ...engineer, visibilityTimeout: 1000 });
+    jest.setSystemTime(1_002_000);
+
+    const reclaimed = await queue.claim('coder-2', engineer);
+    expect(reclaimed).toMatchObject({ id, claimedBy: 'coder-2', attempts: 2 });
+    expect(reclaimed?.lastError).toContain('Visibility timeout expired');
+    expect(await queue.ack(id, 'coder-1')).toBe(false);
+  });
+
+  test('retries failed tasks and dead-letters them after the last attempt', async () => {
+    const queue = createQueue();
+    const id = await queue.enqueue(task, { maxAttempts: 2 });
+
+    await queue.claim('coder-1', engineer);
+    await queue.nack(id, 'coder-1', 'Tests failed');
+    expect(await queue.getStatus(id)).toMatchObject({ status: 'pending', attempts: 1, lastError: 'Tests failed' });
+
+    await queue.claim('coder-1', engineer);
+    await queue.nack(id, 'coder-1', 'Tests failed again');
+
+    expect(await queue.claim('coder-1', engineer)).toBeNull();
+    expect(await queue.getDeadLetters()).toEqual([
+      expect.objectContaining({ id, status: 'dead', attempts: 2, lastError: 'Tests failed again' })
+    ]);
+  });
+});
+
+describe('QueueWorker', () => {
+  function createWorker(
+    queue: RedisTaskQueue,
+    execute: jest.Mock<Promise<TaskResult>>,
+    getState: () => LifecycleState = () => 'running'
+  ) {
+    return new QueueWorker({
+      queue,
+      agent: {
+        getId: () => 'coder-1',
+        getRole: () => ({
+          name: 'Software Engineer',
+          description: '',
+          responsibilities: [],
+          capabilities: { coding: '', testing: '' },
+          tools: {},
+          instructions: []
+        }),
+        getState,
+        execute
+      }
+    });
+  }
+
+  test('acknowledges successful tasks and returns failures to the queue', async () => {
+    const queue = createQueue();
+    const done = await queue.enqueue(task);
+    const broken = await queue.enqueue({ ...task, task: 'Fix flaky test' });
+    const execute = jest.fn<Promise<TaskResult>, any[]>()
+      .mockResolvedValueOnce({ success: true, result: 'Implemented' })
+      .mockRejectedValueOnce(new Error('Agent is stopped and not accepting tasks'));
+    const worker = createWorker(queue, execute);
+
+    expect(await worker.poll()).toBe(true);
+    expect(await worker.poll()).toBe(true);
+    expect(execute).toHaveBeenCalledWith(task);
+
+    expect(await queue.getStatus(done)).toMatchObject({ status: 'completed', result: { result: 'Implemented' } });
+    expect(await queue.getStatus(broken)).toMatchObject({
+      status: 'pending',
+      lastError: 'Agent is stopped and not accepting tasks'
+    });
+  });
+
+  test('dead-letters tasks that fail the same way on every attempt', async () => {
+    const queue = createQueue();
+    const rejected = await queue.enqueue(task);
+    const invalid = await queue.enqueue({ ...task, task: 'Report as JSON' });
+    const execute = jest.fn<Promise<TaskResult>, any[]>()
+      .mockResolvedValueOnce({ success: false, result: 'Blocked by guardrail', status: 'rejected' })
+      .mockResolvedValueOnce({
+        success: false,
+        result: 'Response did not match the output schema',
+        validationErrors: [{ path: '$', message: 'must be of type object' }]
+      });
+    const worker = createWorker(queue, execute);
+
+    expect(await worker.poll()).toBe(true);
+    expect(await worker.poll()).toBe(true);
+    expect(await worker.poll()).toBe(false);
+
+    expect(execute).toHaveBeenCalledTimes(2);
+    expect(await queue.getDeadLetters()).toEqual(expect.arrayContaining([
+      expect.objectContaining({ id: rejected, status: 'dead', attempts: 1, lastError: 'Blocked by guardrail' }),
+      expect.objectContaining({ id: invalid, status: 'dead', attempts: 1 })
+    ]));
+  });
+
+  test('leaves tasks unclaimed while the agent is paused', async () => {
+    const queue = createQueue();
+    const id = await queue.enqueue(task);
+    let state: LifecycleState = 'paused';
+    const execute = jest.fn<Promise<TaskResult>, any[]>().mockResolvedValue({ success: true, result: 'Implemented' });
+    const worker = createWorker(queue, execute, () => state);
+
+    expect(await worker.poll()).toBe(false);
+    expect(execute).not.toHaveBeenCalled();
+    expect(await queue.getStatus(id)).toMatchObject({ status: 'pending', attempts: 0 });
+
+    state = 'running';
+    expect(await worker.poll()).toBe(true);
+    expect(await queue.getStatus(id)).toMatchObject({ status: 'completed' });
+  });
+});
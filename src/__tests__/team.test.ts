@@ -0,0 +1,112 @@
+import { Team, TeamConfig } from '../team/base.js';
+import { AgentTask, TaskResult } from '../agents/base/Agent.js';
+
+const mockExecute = jest.fn<Promise<TaskResult>, [string, AgentTask]>();
+
+jest.mock('../agents/base/Agent.js', () => ({
+  Agent: jest.fn().mockImplementation((config: { id: string }) => ({
+    start: jest.fn().mockResolvedValue(undefined),
+    stop: jest.fn().mockResolvedValue(undefined),
+    getId: () => config.id,
+    execute: (task: AgentTask) => mockExecute(config.id, task)
+  }))
+}));
+
+function usage(totalTokens: number) {
+  return { calls: 1, inputTokens: totalTokens / 2, outputTokens: totalTokens / 2, totalTokens, cost: 0.01, duration: 5 };
+}
+
+function createTeam(overrides: Partial<TeamConfig> = {}) {
+  return new Team({
+    name: 'crew',
+    members: [
+      { name: 'pm', rolePath: 'roles/project-manager.json' },
+      { name: 'coder', rolePath: 'roles/coder.json' },
+      { name: 'reviewer', rolePath: 'roles/reviewer.json' }
+    ],
+    handOffs: [
+      { from: 'pm', to: 'coder', task: 'Implement this plan: {{result}}' },
+      { from: 'coder', to: 'reviewer', task: 'Review the work from {{from}}' },
+      { from: 'reviewer', to: 'coder', when: result => !String(result.result).startsWith('APPROVED') }
+    ],
+    claude: {} as any,
+    backplane: {} as any,
+    memory: {} as any,
+    roleLoader: {} as any,
+    ...overrides
+  });
+}
+
+describe('Team', () => {
+  beforeEach(() => {
+    mockExecute.mockReset();
+  });
+
+  test('hands the objective from planner to coder to reviewer and combines the transcript', async () => {
+    const reviews = ['Needs tests', 'APPROVED'];
+    mockExecute.mockImplementation(async (agentId, task) => {
+      if (agentId === 'crew-pm') return { success: true, result: '1. Add endpoint', usage: usage(100) };
+      if (agentId === 'crew-coder') return { success: true, result: `code for ${task.task}`, usage: usage(40) };
+      return { success: true, result: reviews.shift()!, usage: usage(20) };
+    });
+
+    const memory = { optimize: jest.fn().mockResolvedValue(undefined) };
+    const team = createTeam({ memory: memory as any });
+    const result = await team.run('Build a todo API', { language: 'TypeScript' });
+
+    expect(result.success).toBe(true);
+    expect(result.result?.result).toBe('APPROVED');
+    expect(result.transcript.map(entry => entry.member)).toEqual(['pm', 'coder', 'reviewer', 'coder', 'reviewer']);
+
+    const coderTask = result.transcript[1].task;
+    expect(coderTask.task).toBe('Implement this plan: 1. Add endpoint');
+    expect(coderTask.data).toEqual(expect.objectContaining({
+      language: 'TypeScript',
+      handOff: { from: 'pm', success: true, result: '1. Add endpoint' }
+    }));
+    expect(result.transcript[3].task.task).toContain('using the output from reviewer');
+    expect(result.transcript[3].task.data.history).toHaveLength(3);
+
+    expect(result.metrics.coder).toEqual(expect.objectContaining({
+      agentId: 'crew-coder',
+      tasks: 2,
+      succeeded: 2,
+      totalTokens: 80
+    }));
+    expect(result.metrics.pm.totalTokens).toBe(100);
+
+    const members = ['pm', 'coder', 'reviewer'].map(name => team.getMember(name)!);
+    await team.stop();
+    for (const member of members) {
+      expect(member.stop).toHaveBeenCalledWith({ flush: false });
+    }
+    expect(memory.optimize).toHaveBeenCalledTimes(1);
+  });
+
+  test('stops at the turn limit when members keep handing back', async () => {
+    mockExecute.mockResolvedValue({ success: true, result: 'Needs work' });
+
+    const result = await createTeam({ maxTurns: 4 }).run('Build a todo API');
+
+    expect(result.success).toBe(false);
+    expect(result.transcript).toHaveLength(4);
+  });
+
+  test('records a failed turn and ends the run when no rule covers failure', async () => {
+    mockExecute.mockImplementation(async agentId => {
+      if (agentId === 'crew-coder') throw new Error('Agent is stopped and not accepting tasks');
+      return { success: true, result: 'plan' };
+    });
+
+    const result = await createTeam().run('Build a todo API');
+
+    expect(result.success).toBe(false);
+    expect(result.transcript.map(entry => entry.member)).toEqual(['pm', 'coder']);
+    expect(result.metrics.coder.failed).toBe(1);
+  });
+
+  test('rejects hand-off rules that name unknown members', () => {
+    expect(() => createTeam({ handOffs: [{ from: 'pm', to: 'qa' }] }))
+      .toThrow('refers to unknown member qa');
+  });
+});
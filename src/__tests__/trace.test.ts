@@ -0,0 +1,95 @@
+import { ClaudeClient } from '../claude/client.js';
+import { TraceRecorder, TraceReplayer } from '../trace/base.js';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const mockCreate = jest.fn();
+
+jest.mock('@anthropic-ai/sdk', () => ({
+  __esModule: true,
+  default: jest.fn().mockImplementation(() => ({
+    messages: { create: mockCreate }
+  }))
+}));
+
+function textResponse(text: string) {
+  return {
+    content: [{ type: 'text', text }],
+    stop_reason: 'end_turn',
+    usage: { input_tokens: 10, output_tokens: 5 }
+  };
+}
+
+const task = { goal: 'Plan', task: 'Name the project', data: { team: 'core' } };
+
+describe('Traces', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    mockCreate.mockReset();
+    directory = await fs.mkdtemp(join(tmpdir(), 'traces-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  test('records Claude requests and responses to a file and replays them without calling the API', async () => {
+    const claude = new ClaudeClient({ apiKey: 'test-key' });
+    const path = join(directory, 'run.json');
+    mockCreate
+      .mockResolvedValueOnce(textResponse('Orion'))
+      .mockRejectedValueOnce(new Error('Overloaded'));
+
+    const recorder = new TraceRecorder(path);
+    await recorder.run(task, async () => {
+      await claude.complete('Suggest a name');
+      await expect(claude.converse([{ role: 'user', content: 'Another?' }])).rejects.toThrow('Overloaded');
+    });
+
+    const saved = JSON.parse(await fs.readFile(path, 'utf-8'));
+    expect(saved.task).toEqual(task);
+    expect(saved.events).toEqual([
+      expect.objectContaining({ type: 'claude', response: textResponse('Orion') }),
+      expect.objectContaining({ type: 'claude', error: 'Overloaded' })
+    ]);
+    expect(saved.events[0].request.messages).toEqual([{ role: 'user', content: 'Suggest a name' }]);
+
+    mockCreate.mockClear();
+    const replayer = await TraceReplayer.load(path);
+    const replies = await replayer.run(replayer.getTask(), async () => [
+      await claude.complete('Suggest a name'),
+      await claude.converse([{ role: 'user', content: 'Another?' }]).catch(error => error.message)
+    ]);
+
+    expect(replies).toEqual(['Orion', 'Overloaded']);
+    expect(mockCreate).not.toHaveBeenCalled();
+    expect(replayer.getDivergence()).toBeUndefined();
+  });
+
+  test('reports the first divergence and stops once the trace runs out', async () => {
+    const claude = new ClaudeClient({ apiKey: 'test-key' });
+    mockCreate.mockResolvedValue(textResponse('Orion'));
+
+    const recorder = new TraceRecorder();
+    await recorder.run(task, () => claude.complete('Suggest a name'));
+
+    const replayer = new TraceReplayer(recorder.getTrace()!);
+    await replayer.run(task, async () => {
+      expect(await claude.complete('Suggest a short name')).toBe('Orion');
+      await expect(claude.complete('And a logo?')).rejects.toThrow('after the trace ended');
+    });
+
+    expect(mockCreate).toHaveBeenCalledTimes(1);
+    expect(replayer.getDivergence()).toMatchObject({
+      index: 0,
+      path: 'request.messages[0].content',
+      expected: 'Suggest a name',
+      actual: 'Suggest a short name'
+    });
+
+    await replayer.run({ ...task, data: { team: 'web' } }, async () => undefined);
+    expect(replayer.getDivergence()).toMatchObject({ index: -1, path: 'task.data.team' });
+  });
+});
@@ -1,14 +1,52 @@
 import { Backplane } from '../../backplane/base.js';
-import { Tool } from '../../tools/base.js';
-import { ClaudeClient } from '../../claude/client.js';
+import { AgentInfo } from '../../backplane/types.js';
+import { abortError, Tool, ToolResult, toToolDefinition } from '../../tools/base.js';
+import {
+  ClaudeClient,
+  ConversationMessage,
+  ToolResultContent,
+  ToolUseContent
+} from '../../claude/client.js';
 import { promises as fs } from 'fs';
 import { logger } from '../../logging/base.js';
 import { LogComponent } from '../../logging/types.js';
 import { RoleDefinition, validateRole } from '../../roles/types.js';
 import { RoleLoader } from '../../roles/loader.js';
-import { Memory } from './Memory.js';
+import { Memory, MemoryNode, MemoryType } from './Memory.js';
+import { Context, ContextNode, ContextThread } from './Context.js';
+import {
+  Inbox,
+  InboxOptions,
+  MessageHandler,
+  MessageHandlerOptions,
+  CONTEXT_SHARE,
+  MESSAGE_REJECTED,
+  STATUS_PING,
+  STATUS_PONG,
+  TASK_REQUEST,
+  TASK_RESPONSE
+} from './Inbox.js';
+import { Delegator, DelegationOptions, DelegationResult } from './Delegation.js';
+import { Lifecycle, LifecycleListener, LifecycleState } from './Lifecycle.js';
+import { Critic, CritiqueOptions, CritiqueRound, RefineResult } from './Critique.js';
+import { AgentPlugin, HookContext, PluginRunner, ToolCall } from './Plugins.js';
+import { BudgetTracker, withoutBudget } from '../../budget/base.js';
+import { BudgetUsage, TaskBudget } from '../../budget/types.js';
+import { PromptBuilder } from '../../prompts/base.js';
+import { PromptTemplates, PromptVariables, RenderedSection } from '../../prompts/types.js';
+import { AgentSnapshot, InterruptedTask, SNAPSHOT_VERSION, readSnapshot, writeSnapshot } from './Checkpoint.js';
+import { JsonSchema, SchemaValidationError } from '../../schema/types.js';
+import { extractJson, formatSchemaErrors, validateSchema } from '../../schema/validator.js';
+import { ApprovalHandler } from '../../approval/base.js';
+import { ApprovalRecord } from '../../approval/types.js';
+import { ClarificationRecord } from '../../clarification/types.js';
+import { ClarificationHandler, CLARIFICATION_TOOL } from '../../clarification/base.js';
+import type { Tracer } from '../../trace/base.js';
+import { describeRejection, GuardrailChain } from '../../guardrails/base.js';
+import { Guardrail, GuardrailResult } from '../../guardrails/types.js';
 
 export interface AgentConfig {
+  id?: string;
   rolePath: string;
   tools: Tool[];
   claude: ClaudeClient;
@@ -20,10 +58,31 @@ export interface AgentConfig {
     'sendMessage' | 
     'broadcastMessage' | 
     'shareContext' | 
-    'findCollaborators'
+    'findCollaborators' |
+    'subscribe' |
+    'unsubscribe'
   >;
   memory: Memory;
   roleLoader: RoleLoader;
+  maxToolIterations?: number;
+  approvalHandler?: ApprovalHandler;
+  clarificationHandler?: ClarificationHandler; // Lets the model pause a task to ask a human a question
+  memoryOptions?: AgentMemoryOptions;
+  context?: Context;
+  inbox?: InboxOptions;
+  delegationTimeout?: number;
+  maxValidationAttempts?: number;
+  critique?: CritiqueOptions; // Self-critique every successful answer unless a task opts out
+  plugins?: AgentPlugin[];
+  guardrails?: Guardrail[]; // Checked in order against every task and successful response
+}
+
+export interface AgentMemoryOptions {
+  recallLimit?: number;
+  minRelevance?: number;
+  types?: MemoryType[]; // Memory types injected into the prompt
+  storeExperiences?: boolean;
+  extractLearnings?: boolean;
 }
 
 export interface AgentMessage {
@@ -32,137 +91,1434 @@ export interface AgentMessage {
   metadata?: Record<string, any>;
 }
 
+export interface AgentTask {
+  goal: string;
+  task: string;
+  data: any;
+  parentContext?: Array<Pick<ContextNode, 'type' | 'content'>>; // Set when delegated by another agent
+  outputSchema?: JsonSchema; // Validate the final response as JSON against this schema
+  maxValidationAttempts?: number;
+  prompt?: PromptTemplates; // Per-task overrides of the role's prompt sections
+  critique?: CritiqueOptions | false; // Overrides the agent's self-critique settings
+  history?: ConversationMessage[]; // Earlier turns of a conversation, sent ahead of the prompt
+}
+
+export interface ToolCallRecord {
+  id: string;
+  tool: string;
+  input: unknown;
+  result: ToolResult;
+}
+
+// Why a task stopped before running to completion, or why its response was withheld
+export type TaskStatus = 'cancelled' | 'budget_exceeded' | 'rejected';
+
+export interface TaskResult<T = any> {
+  success: boolean;
+  result: any;
+  output?: T; // Parsed and validated response when the task had an outputSchema
+  validationErrors?: SchemaValidationError[];
+  toolCalls?: ToolCallRecord[];
+  threadId?: string;
+  status?: TaskStatus; // Absent when the task finished or failed on its own
+  usage?: BudgetUsage; // Present when the task ran under a budget
+  critique?: CritiqueRound[];
+  guardrails?: GuardrailResult[]; // Every rejection, rewrite and flag from the agent's guardrails
+}
+
+export interface ExecuteOptions {
+  signal?: AbortSignal; // Cancels Claude requests and running tools
+  budget?: TaskBudget; // Limits every Claude call made for the task, including memory and context upkeep
+  trace?: Tracer; // Records the task's Claude calls and tool results, or replays them from a trace
+  conversation?: boolean; // A turn of an ongoing conversation: no previous-work lookup, task thread or learning extraction
+}
+
+// Where an in-flight task is up to
+export type TaskRunState = 'running' | 'waiting_for_input';
+
+export interface ActiveTask {
+  task: AgentTask;
+  threadId?: string;
+  state: TaskRunState;
+  question?: string; // Set while waiting for input
+}
+
+export interface StopOptions {
+  timeout?: number; // Milliseconds to wait for in-flight tasks before stopping anyway
+  flush?: boolean; // Close open threads and optimize memory and context
+}
+
+// How long cancelled tasks get to record their outcome before stop() tears down what they write to
+const ABORT_GRACE_PERIOD = 5000;
+
+// Per-call state threaded through a single execute()
+interface TaskRun {
+  task: AgentTask;
+  threadId?: string;
+  controller: AbortController; // Lets the agent cancel the run itself, e.g. when stopping
+  signal: AbortSignal; // Fires on the caller's signal, the budget or the controller
+  budget?: BudgetTracker;
+  trace?: Tracer;
+  conversation: boolean;
+  guardrails: GuardrailResult[];
+  state: TaskRunState;
+  question?: string;
+}
+
+function failedToolResult(error: string, startTime: Date, approval?: ApprovalRecord): ToolResult {
+  const endTime = new Date();
+  return {
+    success: false,
+    output: null,
+    error,
+    metadata: {
+      startTime,
+      endTime,
+      duration: endTime.getTime() - startTime.getTime(),
+      ...(approval ? { approval } : {})
+    }
+  };
+}
+
 export class Agent {
+  private readonly id: string;
   private readonly rolePath: string;
   private readonly tools: Tool[];
   private claude: ClaudeClient;
   private readonly backplane: AgentConfig['backplane'];
   private readonly memory: Memory;
   private readonly roleLoader: RoleLoader;
+  private readonly maxToolIterations: number;
+  private readonly maxValidationAttempts: number;
+  private readonly critiqueOptions?: CritiqueOptions;
+  private readonly plugins: PluginRunner;
+  private readonly guardrails: GuardrailChain;
+  private readonly approvalHandler?: ApprovalHandler;
+  private readonly clarificationHandler?: ClarificationHandler;
+  private readonly memoryOptions: Required<AgentMemoryOptions>;
+  private context: Context | null;
+  private readonly inbox: Inbox;
+  private readonly delegator: Delegator;
   private roleDefinition: RoleDefinition | null = null;
-  private isInitialized: boolean = false;
+  private readonly lifecycle: Lifecycle;
+  private isRegistered: boolean = false;
+  private activeTasks: number = 0;
+  private idleWaiters: Array<() => void> = [];
+  private runs: Set<TaskRun> = new Set();
+  private restoredRole?: RoleDefinition;
+  private prompts: PromptBuilder = new PromptBuilder();
+  private interrupted: InterruptedTask[] = [];
+  private stopping?: Promise<void>;
 
   constructor(config: AgentConfig) {
+    this.id = config.id ?? `agent-${crypto.randomUUID()}`;
+    this.lifecycle = new Lifecycle(this.id);
     this.rolePath = config.rolePath;
     this.tools = config.tools;
+    this.maxToolIterations = config.maxToolIterations ?? 10;
+    this.maxValidationAttempts = config.maxValidationAttempts ?? 3;
+    this.critiqueOptions = config.critique;
+    this.plugins = new PluginRunner(config.plugins);
+    this.guardrails = new GuardrailChain(config.guardrails);
+    this.approvalHandler = config.approvalHandler;
+    this.clarificationHandler = config.clarificationHandler;
+    this.memoryOptions = {
+      recallLimit: config.memoryOptions?.recallLimit ?? 5,
+      minRelevance: config.memoryOptions?.minRelevance ?? 0.5,
+      types: config.memoryOptions?.types ?? ['fact', 'experience', 'learning'],
+      storeExperiences: config.memoryOptions?.storeExperiences ?? true,
+      extractLearnings: config.memoryOptions?.extractLearnings ?? true
+    };
     this.claude = config.claude;
     this.backplane = config.backplane;
     this.memory = config.memory;
     this.roleLoader = config.roleLoader;
+    this.context = config.context ?? null;
+    const maxConcurrent = config.inbox?.maxConcurrent ?? 1;
+    this.inbox = new Inbox({
+      ...config.inbox,
+      agentId: this.id,
+      backplane: this.backplane,
+      isBusy: () => this.activeTasks >= maxConcurrent,
+      transform: async envelope => {
+        const message = await this.plugins.message(envelope.message, envelope, { agentId: this.id });
+        return message === envelope.message ? envelope : { ...envelope, message };
+      }
+    });
+    this.delegator = new Delegator({
+      agentId: this.id,
+      backplane: this.backplane,
+      inbox: this.inbox,
+      defaultTimeout: config.delegationTimeout
+    });
+    this.registerBuiltInHandlers();
   }
 
-  async init(config: AgentConfig): Promise<void> {
-    try {
-      if (!this.isInitialized) {
-        logger.info(LogComponent.AGENT, `Initializing agent with role from ${this.rolePath}`);
-        
-        // Load role definition using role loader
-        const loadedRole = await this.roleLoader.loadRole(this.rolePath);
-        
-        // Validate role definition
-        const errors = validateRole(loadedRole.definition);
-        if (errors.length > 0) {
-          const errorMessage = `Invalid role definition: ${errors.map(e => `${e.field}: ${e.message}`).join(' ')}`;
-          logger.error(LogComponent.AGENT, errorMessage);
-          throw new Error(errorMessage);
-        }
+  async init(config?: AgentConfig): Promise<void> {
+    if (!this.lifecycle.is('created')) {
+      return;
+    }
 
-        this.roleDefinition = loadedRole.definition;
-        this.isInitialized = true;
+    this.lifecycle.transition('initializing');
+    try {
+      logger.info(LogComponent.AGENT, `Initializing agent with role from ${this.rolePath}`);
+      
+      // Load role definition using role loader, unless it came from a snapshot
+      const definition = this.restoredRole ?? (await this.roleLoader.loadRole(this.rolePath)).definition;
+      
+      // Validate role definition
+      const errors = validateRole(definition);
+      if (errors.length > 0) {
+        const errorMessage = `Invalid role definition: ${errors.map(e => `${e.field}: ${e.message}`).join(' ')}`;
+        logger.error(LogComponent.AGENT, errorMessage);
+        throw new Error(errorMessage);
+      }
 
-        // Create new Claude client with role
-        this.claude = new ClaudeClient({
-          ...this.claude.config,
-          role: this.roleDefinition.name
-        });
+      this.roleDefinition = definition;
+      this.prompts = new PromptBuilder(definition.prompts);
+
+      // Create new Claude client with role
+      this.claude = this.claude.withRole(this.roleDefinition.name);
 
-        logger.info(LogComponent.AGENT, 'Agent initialized successfully', {
-          role: this.roleDefinition.name,
-          toolCount: this.tools.length
+      // Task threads are closed explicitly, so skip the per-node completion check
+      if (!this.context) {
+        this.context = new Context({
+          maxTokens: 100000,
+          claude: this.claude,
+          autoCompleteThreads: false
         });
       }
+      await this.context.initialize();
+
+      await this.register();
+      await this.inbox.start();
+
+      logger.info(LogComponent.AGENT, 'Agent initialized successfully', {
+        id: this.id,
+        role: this.roleDefinition.name,
+        toolCount: this.tools.length
+      });
+      this.lifecycle.transition('ready');
     } catch (error) {
       logger.error(LogComponent.AGENT, 'Failed to initialize agent', {
         error: error instanceof Error ? error.message : 'Unknown error',
         rolePath: this.rolePath
       });
+      this.lifecycle.transition('created', error instanceof Error ? error.message : 'Unknown error');
+      throw error;
+    }
+  }
+
+  async start(): Promise<void> {
+    if (this.lifecycle.is('created')) {
+      await this.init();
+    }
+    this.lifecycle.transition('running');
+    await this.updateStatus(this.activeTasks > 0 ? 'busy' : 'idle');
+  }
+
+  async pause(): Promise<void> {
+    this.lifecycle.transition('paused');
+    await this.updateStatus('idle');
+  }
+
+  async resume(): Promise<void> {
+    this.lifecycle.transition('running');
+    this.inbox.drain();
+  }
+
+  // Every caller gets the same promise, which settles once the agent has actually stopped
+  stop(options: StopOptions = {}): Promise<void> {
+    if (this.lifecycle.is('stopped')) return Promise.resolve();
+    this.stopping ??= this.shutdown(options);
+    return this.stopping;
+  }
+
+  private async shutdown(options: StopOptions): Promise<void> {
+    if (this.lifecycle.is('initializing')) {
+      // Let init finish so whatever it registered gets torn down below
+      await new Promise<void>(resolve => {
+        const unwatch = this.lifecycle.watch(event => {
+          if (event.from !== 'initializing') return;
+          unwatch();
+          resolve();
+        });
+      });
+    }
+
+    if (this.lifecycle.is('created')) {
+      this.lifecycle.transition('stopped');
+      return;
+    }
+
+    this.lifecycle.transition('draining');
+    await this.updateStatus('offline');
+    await this.inbox.rejectQueued('stopping');
+
+    const drained = await this.waitForIdle(options.timeout ?? 60000);
+    if (!drained) {
+      logger.warn(LogComponent.AGENT, 'Cancelling tasks still in flight', {
+        id: this.id,
+        activeTasks: this.activeTasks
+      });
+      this.runs.forEach(run => run.controller.abort(new Error('Agent is stopping')));
+      if (!await this.waitForIdle(ABORT_GRACE_PERIOD)) {
+        logger.warn(LogComponent.AGENT, 'Cancelled tasks did not finish in time', {
+          id: this.id,
+          activeTasks: this.activeTasks
+        });
+      }
+    }
+
+    await this.inbox.stop();
+    await this.unregister();
+
+    if (options.flush ?? true) {
+      await this.flush();
+    }
+
+    this.lifecycle.transition('stopped');
+  }
+
+  // Saves role, context, memory and in-flight tasks so another process can pick up from here
+  async checkpoint(path: string): Promise<AgentSnapshot> {
+    if (!this.roleDefinition) {
+      throw new Error('Agent not initialized. Call init() first.');
+    }
+
+    const snapshot: AgentSnapshot = {
+      version: SNAPSHOT_VERSION,
+      createdAt: new Date(),
+      agentId: this.id,
+      rolePath: this.rolePath,
+      role: this.roleDefinition,
+      context: this.context?.snapshot(),
+      memory: this.memory.snapshot(),
+      inFlight: Array.from(this.runs).map(run => ({ task: run.task, threadId: run.threadId }))
+    };
+
+    try {
+      await writeSnapshot(path, snapshot);
+      logger.info(LogComponent.AGENT, 'Agent checkpoint saved', {
+        id: this.id,
+        path,
+        inFlight: snapshot.inFlight.length
+      });
+      return snapshot;
+    } catch (error) {
+      logger.error(LogComponent.AGENT, 'Failed to save agent checkpoint', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        id: this.id,
+        path
+      });
       throw error;
     }
   }
 
-  async execute(task: { goal: string; task: string; data: any }): Promise<{ success: boolean; result: any }> {
-    if (!this.isInitialized || !this.roleDefinition) {
+  // Builds an initialized agent from a snapshot; call resumeInterrupted() to rerun unfinished tasks
+  static async restore(path: string, config: AgentConfig): Promise<Agent> {
+    const snapshot = await readSnapshot(path);
+    const agent = new Agent({ ...config, id: snapshot.agentId, rolePath: snapshot.rolePath });
+
+    agent.restoredRole = snapshot.role;
+    await agent.init();
+    if (snapshot.context && agent.context) {
+      await agent.context.restore(snapshot.context);
+    }
+    await agent.memory.restore(snapshot.memory);
+    agent.interrupted = snapshot.inFlight;
+
+    logger.info(LogComponent.AGENT, 'Agent restored from checkpoint', {
+      id: agent.id,
+      path,
+      version: snapshot.version,
+      createdAt: snapshot.createdAt,
+      interrupted: snapshot.inFlight.length
+    });
+
+    return agent;
+  }
+
+  getInterruptedTasks(): AgentTask[] {
+    return this.interrupted.map(entry => entry.task);
+  }
+
+  async resumeInterrupted(): Promise<TaskResult[]> {
+    const interrupted = this.interrupted.splice(0);
+    const results: TaskResult[] = [];
+
+    for (const entry of interrupted) {
+      // Close the half-finished thread so the rerun sees it as previous work
+      await this.closeThread(entry.threadId);
+      results.push(await this.execute(entry.task));
+    }
+
+    return results;
+  }
+
+  getState(): LifecycleState {
+    return this.lifecycle.state;
+  }
+
+  watchLifecycle(listener: LifecycleListener): () => void {
+    return this.lifecycle.watch(listener);
+  }
+
+  async execute<T = any>(task: AgentTask, options: ExecuteOptions = {}): Promise<TaskResult<T>> {
+    if (this.lifecycle.is('created', 'initializing') || !this.roleDefinition) {
       const error = new Error('Agent not initialized. Call init() first.');
       logger.error(LogComponent.AGENT, 'Attempted to execute task before initialization');
       throw error;
     }
 
+    if (!this.lifecycle.is('ready', 'running')) {
+      logger.warn(LogComponent.AGENT, 'Rejected task while not accepting work', {
+        id: this.id,
+        state: this.lifecycle.state
+      });
+      throw new Error(`Agent is ${this.lifecycle.state} and not accepting tasks`);
+    }
+
     logger.info(LogComponent.AGENT, 'Executing task', {
+      id: this.id,
       goal: task.goal,
       task: task.task,
       role: this.roleDefinition.name
     });
 
+    this.activeTasks++;
+    if (this.activeTasks === 1) {
+      await this.updateStatus('busy');
+    }
+
+    const controller = new AbortController();
+    const budget = options.budget ? new BudgetTracker(options.budget) : undefined;
+    const signals = [controller.signal, options.signal, budget?.signal]
+      .filter((signal): signal is AbortSignal => signal !== undefined);
+    const run: TaskRun = {
+      task,
+      controller,
+      signal: signals.length > 1 ? AbortSignal.any(signals) : controller.signal,
+      budget,
+      trace: options.trace,
+      conversation: options.conversation ?? false,
+      guardrails: [],
+      state: 'running'
+    };
+    this.runs.add(run);
+    try {
+      // Guard the input first so the trace only ever holds the task as Claude will see it
+      const work = async (): Promise<TaskResult<T>> => {
+        const rejected = await this.guardInput<T>(run);
+        if (rejected) return rejected;
+        return options.trace
+          ? options.trace.run(run.task, () => this.executeTask<T>(run))
+          : this.executeTask<T>(run);
+      };
+      return await (budget ? budget.run(work) : work());
+    } finally {
+      this.runs.delete(run);
+      this.activeTasks--;
+      if (this.activeTasks === 0) {
+        if (this.lifecycle.is('ready', 'running')) {
+          await this.updateStatus('idle');
+        }
+        this.idleWaiters.splice(0).forEach(resolve => resolve());
+      }
+      this.inbox.drain();
+    }
+  }
+
+  private async executeTask<T>(run: TaskRun): Promise<TaskResult<T>> {
+    if (!this.roleDefinition) {
+      throw new Error('Agent not initialized. Call init() first.');
+    }
+
+    const { task } = run;
+    // Conversation turns carry their own history, and summarizing a thread per message costs a Claude call each
+    const previousWork = run.conversation ? [] : this.findPreviousWork(task);
+    run.threadId = run.conversation ? undefined : await this.openThread(task);
+    await this.record(run, 'communication', `Received task "${task.task}" for goal "${task.goal}"`, {
+      data: task.data
+    });
+    for (const node of task.parentContext ?? []) {
+      await this.record(run, 'communication', node.content, { parentType: node.type, delegated: true });
+    }
+
+    const memories = await this.recallMemories(task);
+
     // Create prompt based on role and task
-    const prompt = `
-You are a ${this.roleDefinition.name}.
-${this.roleDefinition.description}
+    const prompt = this.buildPrompt(task, memories, previousWork);
+
+    const result = await this.guardResponse(
+      await this.afterResponse(await this.refineResult(await this.runToolLoop<T>(prompt, run), run), run),
+      run
+    );
+    const finishThread = async () => {
+      await this.record(
+        run,
+        'result',
+        typeof result.result === 'string' ? result.result : JSON.stringify(result.result),
+        { success: result.success, ...(result.status ? { status: result.status } : {}) }
+      );
+      await this.closeThread(run.threadId);
+    };
+
+    // Once the budget is spent, closing the thread is bookkeeping rather than task work
+    await (result.status === 'budget_exceeded' ? withoutBudget(finishThread) : finishThread());
+    if (!result.status) {
+      await this.rememberTask(task, result, !run.conversation);
+    }
+    return {
+      ...result,
+      threadId: run.threadId,
+      ...(run.budget ? { usage: run.budget.getUsage() } : {})
+    };
+  }
+
+  async delegate(task: AgentTask, options: DelegationOptions = {}): Promise<DelegationResult> {
+    const parentRun = { threadId: options.threadId };
+    const parentThread = options.threadId ? this.context?.getThread(options.threadId) : undefined;
+    const parentContext = parentThread?.nodes
+      .slice(-10)
+      .map(node => ({ type: node.type, content: node.content }));
+
+    await this.record(parentRun, 'communication', `Delegating "${task.task}"`, {
+      role: options.role,
+      capabilities: options.capabilities
+    });
+
+    const result = await this.delegator.delegate(
+      parentContext?.length ? { ...task, parentContext } : task,
+      options
+    );
+
+    await this.record(
+      parentRun,
+      'result',
+      result.agentId
+        ? `${result.agentId} ${result.success ? 'completed' : 'failed'} "${task.task}": ${
+            typeof result.result === 'string' ? result.result : JSON.stringify(result.result)
+          }`
+        : `Could not delegate "${task.task}": ${result.result}`,
+      { delegatedTo: result.agentId, success: result.success }
+    );
+
+    return result;
+  }
+
+  getId(): string {
+    return this.id;
+  }
+
+  getContext(): Context | null {
+    return this.context;
+  }
+
+  getRole(): RoleDefinition | null {
+    return this.roleDefinition;
+  }
+
+  getActiveTasks(): ActiveTask[] {
+    return Array.from(this.runs).map(run => ({
+      task: run.task,
+      threadId: run.threadId,
+      state: run.state,
+      ...(run.question ? { question: run.question } : {})
+    }));
+  }
+
+  on(type: string, handler: MessageHandler, options?: MessageHandlerOptions): void {
+    this.inbox.on(type, handler, options);
+  }
+
+  off(type: string): void {
+    this.inbox.off(type);
+  }
+
+  private waitForIdle(timeout: number): Promise<boolean> {
+    if (this.activeTasks === 0) return Promise.resolve(true);
+
+    return new Promise(resolve => {
+      const timer = setTimeout(() => resolve(false), timeout);
+      this.idleWaiters.push(() => {
+        clearTimeout(timer);
+        resolve(true);
+      });
+    });
+  }
+
+  private async flush(): Promise<void> {
+    if (this.context) {
+      // Threads left open by tasks that outlived the drain timeout
+      const openThreads = this.context.findThreads({ status: ['active'], metadata: { agentId: this.id } });
+      for (const thread of openThreads) {
+        await this.closeThread(thread.id);
+      }
+
+      try {
+        await this.context.optimize();
+      } catch (error) {
+        logger.warn(LogComponent.CONTEXT, 'Failed to flush context on stop', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+          id: this.id
+        });
+      }
+    }
+
+    try {
+      await this.memory.optimize();
+    } catch (error) {
+      logger.warn(LogComponent.MEMORY, 'Failed to flush memory on stop', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        id: this.id
+      });
+    }
+  }
+
+  private async unregister(): Promise<void> {
+    if (!this.isRegistered) return;
+
+    try {
+      await this.backplane.getDiscoveryService().unregisterAgent(this.id);
+      this.isRegistered = false;
+      logger.info(LogComponent.AGENT, 'Agent unregistered from discovery', { id: this.id });
+    } catch (error) {
+      logger.error(LogComponent.AGENT, 'Failed to unregister agent', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        id: this.id
+      });
+      throw error;
+    }
+  }
+
+  private registerBuiltInHandlers(): void {
+    this.inbox.on(TASK_REQUEST, async message => {
+      if (this.lifecycle.is('draining', 'stopped')) {
+        return { type: MESSAGE_REJECTED, content: { reason: 'stopping', rejectedType: TASK_REQUEST } };
+      }
+      try {
+        const result = await this.execute(message.content as AgentTask);
+        return { type: TASK_RESPONSE, content: result };
+      } catch (error) {
+        // Reply anyway so the delegator can move on instead of waiting out its timeout
+        return {
+          type: MESSAGE_REJECTED,
+          content: { reason: error instanceof Error ? error.message : 'Unknown error', rejectedType: TASK_REQUEST }
+        };
+      }
+    }, { queued: true });
+
+    this.inbox.on(CONTEXT_SHARE, async (message, envelope) => {
+      if (!this.context) return;
+
+      const shared = message.content as { nodes?: Array<Pick<ContextNode, 'type' | 'content'>> } | undefined;
+      const nodes = Array.isArray(shared?.nodes)
+        ? shared.nodes
+        : [{ type: 'communication' as const, content: JSON.stringify(message.content) }];
+
+      for (const node of nodes) {
+        await this.context.add({
+          type: node.type,
+          content: node.content,
+          timestamp: new Date(),
+          metadata: { sharedBy: envelope.routing.source }
+        });
+      }
+
+      logger.info(LogComponent.CONTEXT, 'Received shared context', {
+        id: this.id,
+        from: envelope.routing.source,
+        nodeCount: nodes.length
+      });
+    });
+
+    // Decisions and answers from operators come back to the requesting agent like any other message
+    for (const handler of [this.approvalHandler, this.clarificationHandler]) {
+      if (handler?.responseType) {
+        this.inbox.on(handler.responseType, message => { handler.handleMessage(message); });
+      }
+    }
+
+    this.inbox.on(STATUS_PING, () => ({
+      type: STATUS_PONG,
+      content: {
+        id: this.id,
+        role: this.roleDefinition?.name,
+        status: this.activeTasks > 0 ? 'busy' : 'idle',
+        activeTasks: this.activeTasks,
+        queueDepth: this.inbox.getQueueDepth()
+      }
+    }));
+  }
+
+  private async register(): Promise<void> {
+    if (!this.roleDefinition) return;
+
+    const info: AgentInfo = {
+      id: this.id,
+      role: this.roleDefinition.name,
+      capabilities: Object.keys(this.roleDefinition.capabilities),
+      status: 'idle',
+      lastSeen: new Date(),
+      metadata: {
+        rolePath: this.rolePath,
+        tools: this.tools.map(t => t.name)
+      }
+    };
+
+    await this.backplane.getDiscoveryService().registerAgent(info);
+    this.isRegistered = true;
+
+    logger.info(LogComponent.AGENT, 'Agent registered with discovery', {
+      id: this.id,
+      role: info.role,
+      capabilities: info.capabilities
+    });
+  }
+
+  private async updateStatus(status: AgentInfo['status']): Promise<void> {
+    if (!this.isRegistered) return;
+
+    try {
+      await this.backplane.getDiscoveryService().updateAgentStatus(this.id, status);
+    } catch (error) {
+      logger.warn(LogComponent.AGENT, 'Failed to update agent status', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        id: this.id,
+        status
+      });
+    }
+  }
+
+  private async openThread(task: AgentTask): Promise<string | undefined> {
+    if (!this.context) return undefined;
+
+    return this.context.createThread({
+      goal: task.goal,
+      task: task.task,
+      role: this.roleDefinition?.name,
+      agentId: this.id
+    });
+  }
+
+  private async closeThread(threadId: string | undefined): Promise<void> {
+    if (!this.context || !threadId) return;
+
+    try {
+      await this.context.closeThread(threadId);
+    } catch (error) {
+      logger.warn(LogComponent.CONTEXT, 'Failed to close task thread', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        threadId
+      });
+    }
+  }
+
+  private async record(
+    run: Pick<TaskRun, 'threadId'>,
+    type: ContextNode['type'],
+    content: string,
+    metadata?: Record<string, unknown>
+  ): Promise<void> {
+    if (!this.context || !run.threadId) return;
+
+    try {
+      await this.context.add({
+        type,
+        content,
+        timestamp: new Date(),
+        threadId: run.threadId,
+        metadata
+      });
+    } catch (error) {
+      logger.warn(LogComponent.CONTEXT, 'Failed to record context node', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        threadId: run.threadId,
+        type
+      });
+    }
+  }
+
+  private findPreviousWork(task: AgentTask): ContextThread[] {
+    if (!this.context) return [];
 
-Your responsibilities include:
-${this.roleDefinition.responsibilities.join('\n')}
+    return this.context
+      .findThreads({ status: ['completed', 'archived'], metadata: { goal: task.goal } })
+      .slice(-3);
+  }
 
-Your capabilities:
-${Object.entries(this.roleDefinition.capabilities)
-  .map(([name, desc]) => `- ${name}: ${desc}`)
-  .join('\n')}
+  // Renders the prompt execute() would send, without calling Claude or recording anything
+  async previewPrompt(task: AgentTask): Promise<{ prompt: string; sections: RenderedSection[] }> {
+    if (!this.roleDefinition) {
+      throw new Error('Agent not initialized. Call init() first.');
+    }
 
-Available tools:
-${Object.entries(this.roleDefinition.tools)
-  .map(([name, desc]) => `- ${name}: ${desc}`)
-  .join('\n')}
+    const memories = await this.recallMemories(task);
+    const variables = this.buildPromptVariables(task, memories, this.findPreviousWork(task));
+    const builder = this.prompts.withOverrides(task.prompt);
 
-Instructions for your role:
-${this.roleDefinition.instructions.join('\n')}
+    return {
+      prompt: builder.render(variables),
+      sections: builder.renderSections(variables)
+    };
+  }
 
-Your current task:
-Goal: ${task.goal}
-Task: ${task.task}
-Data: ${JSON.stringify(task.data, null, 2)}
+  private buildPrompt(task: AgentTask, memories: MemoryNode[], previousWork: ContextThread[]): string {
+    return this.prompts
+      .withOverrides(task.prompt)
+      .render(this.buildPromptVariables(task, memories, previousWork));
+  }
+
+  private buildPromptVariables(
+    task: AgentTask,
+    memories: MemoryNode[],
+    previousWork: ContextThread[]
+  ): PromptVariables {
+    const role = this.roleDefinition!;
+    const list = (entries: Record<string, string>) =>
+      Object.entries(entries).map(([name, desc]) => `- ${name}: ${desc}`).join('\n');
+
+    return {
+      role: {
+        name: role.name,
+        description: role.description,
+        responsibilities: role.responsibilities.join('\n'),
+        capabilities: list(role.capabilities),
+        tools: list(role.tools),
+        instructions: role.instructions.join('\n')
+      },
+      memories: this.formatMemories(memories).trim(),
+      previousWork: this.formatPreviousWork(previousWork).trim(),
+      parentContext: this.formatParentContext(task).trim(),
+      task: {
+        goal: task.goal,
+        task: task.task,
+        data: JSON.stringify(task.data, null, 2)
+      },
+      outputSchema: this.formatOutputSchema(task).trim()
+    };
+  }
+
+  private formatPreviousWork(threads: ContextThread[]): string {
+    if (threads.length === 0) return '';
+
+    const entries = threads.map(thread => {
+      const taskName = thread.metadata?.task ?? 'Earlier task';
+      const details = thread.summary ?? thread.nodes.map(n => `[${n.type}] ${n.content}`).join('\n');
+      return `- ${taskName}:\n${details}`;
+    });
+
+    return `\nPrevious work on this goal:\n${entries.join('\n')}\n`;
+  }
 
-Please provide your response based on your role, capabilities, and available tools.
+  private formatParentContext(task: AgentTask): string {
+    if (!task.parentContext?.length) return '';
+
+    return `\nContext from the delegating agent:\n${task.parentContext
+      .map(node => `[${node.type}] ${node.content}`)
+      .join('\n')}\n`;
+  }
+
+  private formatOutputSchema(task: AgentTask): string {
+    if (!task.outputSchema) return '';
+
+    return `
+Respond with only a JSON value that matches this JSON schema:
+${JSON.stringify(task.outputSchema, null, 2)}
 `;
+  }
+
+  private async runToolLoop<T>(prompt: string, run: TaskRun): Promise<TaskResult<T>> {
+    const { task } = run;
+    const messages: ConversationMessage[] = [...(task.history ?? [])];
+    const toolDefinitions = [
+      ...this.tools.map(toToolDefinition),
+      ...(this.clarificationHandler ? [CLARIFICATION_TOOL] : [])
+    ];
+    const toolCalls: ToolCallRecord[] = [];
+    const maxValidationAttempts = task.maxValidationAttempts ?? this.maxValidationAttempts;
+    let toolIterations = 0;
+    let validationAttempts = 0;
+    let turns = 0;
+    let partial = ''; // Latest text from the model, returned if the task is stopped early
 
     try {
+      messages.push({ role: 'user', content: await this.plugins.run('beforePrompt', prompt, this.hookContext(run)) });
       logger.debug(LogComponent.AGENT, 'Sending prompt to Claude', {
         promptLength: prompt.length,
-        role: this.roleDefinition.name
+        role: this.roleDefinition?.name,
+        toolCount: toolDefinitions.length
       });
 
-      const response = await this.claude.complete(prompt);
-      
-      logger.info(LogComponent.AGENT, 'Task executed successfully', {
+      while (toolIterations < this.maxToolIterations) {
+        if (run.signal.aborted) {
+          return this.stoppedEarly<T>(run, toolCalls, partial);
+        }
+
+        const response = await this.claude.converse(messages, { tools: toolDefinitions, signal: run.signal });
+        turns++;
+        const toolUses = response.content.filter(
+          (block): block is ToolUseContent => block.type === 'tool_use'
+        );
+        const text = response.content
+          .map(block => block.type === 'text' ? block.text : '')
+          .join('');
+        partial = text || partial;
+
+        if (response.stopReason !== 'tool_use' || toolUses.length === 0) {
+          let output: T | undefined;
+
+          if (task.outputSchema) {
+            const parsed = this.parseOutput<T>(text, task.outputSchema);
+            validationAttempts++;
+
+            if (parsed.errors.length > 0) {
+              logger.warn(LogComponent.AGENT, 'Response failed output schema validation', {
+                goal: task.goal,
+                attempt: validationAttempts,
+                maxValidationAttempts,
+                errorCount: parsed.errors.length
+              });
+
+              if (validationAttempts >= maxValidationAttempts) {
+                return {
+                  success: false,
+                  result: `Response did not match the output schema after ${validationAttempts} attempt(s):\n${formatSchemaErrors(parsed.errors)}`,
+                  validationErrors: parsed.errors,
+                  toolCalls
+                };
+              }
+
+              messages.push({ role: 'assistant', content: response.content });
+              messages.push({
+                role: 'user',
+                content: `Your response did not match the required JSON schema:\n${formatSchemaErrors(parsed.errors)}\n\nRespond again with only JSON that fixes these errors.`
+              });
+              continue;
+            }
+
+            output = parsed.value;
+          }
+
+          logger.info(LogComponent.AGENT, 'Task executed successfully', {
+            goal: task.goal,
+            responseLength: text.length,
+            iterations: turns,
+            toolCallCount: toolCalls.length
+          });
+
+          return {
+            success: true,
+            result: text,
+            ...(task.outputSchema ? { output } : {}),
+            toolCalls
+          };
+        }
+
+        toolIterations++;
+        messages.push({ role: 'assistant', content: response.content });
+        if (text) {
+          await this.record(run, 'thought', text, { iteration: turns });
+        }
+
+        const toolResults: ToolResultContent[] = [];
+        for (const toolUse of toolUses) {
+          await this.record(run, 'action', `Calling ${toolUse.name} with ${JSON.stringify(toolUse.input)}`, {
+            tool: toolUse.name,
+            toolUseId: toolUse.id
+          });
+          const record = await this.runTool(toolUse, run);
+          await this.record(
+            run,
+            'result',
+            record.result.success
+              ? `${record.tool} returned ${JSON.stringify(record.result.output)}`
+              : `${record.tool} failed: ${record.result.error}`,
+            { tool: record.tool, toolUseId: toolUse.id, success: record.result.success }
+          );
+          toolCalls.push(record);
+          toolResults.push({
+            type: 'tool_result',
+            tool_use_id: toolUse.id,
+            content: JSON.stringify(
+              record.result.success ? record.result.output : record.result.error
+            ) ?? '',
+            is_error: !record.result.success
+          });
+        }
+
+        messages.push({ role: 'user', content: toolResults });
+      }
+
+      logger.warn(LogComponent.AGENT, 'Tool iteration limit reached', {
         goal: task.goal,
-        responseLength: response.length
+        maxToolIterations: this.maxToolIterations,
+        toolCallCount: toolCalls.length
       });
 
       return {
-        success: true,
-        result: response
+        success: false,
+        result: `Tool iteration limit of ${this.maxToolIterations} reached before the task completed`,
+        toolCalls
       };
     } catch (error) {
+      if (run.signal.aborted) {
+        return this.stoppedEarly<T>(run, toolCalls, partial);
+      }
+
       logger.error(LogComponent.AGENT, 'Error executing task', {
         error: error instanceof Error ? error.message : 'Unknown error',
         goal: task.goal,
         task: task.task
       });
+      await this.plugins.error(error instanceof Error ? error : new Error(String(error)), 'task', this.hookContext(run));
 
       return {
         success: false,
-        result: error instanceof Error ? error.message : 'Unknown error'
+        result: error instanceof Error ? error.message : 'Unknown error',
+        toolCalls
       };
     }
   }
 
+  // Critiques the answer against the role and revises it until it passes or rounds run out
+  private async refineResult<T>(result: TaskResult<T>, run: TaskRun): Promise<TaskResult<T>> {
+    const { task } = run;
+    const options = task.critique === false ? undefined : task.critique ?? this.critiqueOptions;
+    if (!options || !result.success || typeof result.result !== 'string' || !this.roleDefinition) {
+      return result;
+    }
+
+    const schema = task.outputSchema;
+    let latest = result.result; // Last accepted revision, kept if the run stops mid-critique
+    let refined: RefineResult | undefined;
+    try {
+      refined = await new Critic(this.claude, options).refine({
+      draft: result.result,
+      task,
+      role: this.roleDefinition,
+        signal: run.signal,
+        validate: schema
+          ? draft => {
+              const { errors } = this.parseOutput(draft, schema);
+              return errors.length > 0 ? formatSchemaErrors(errors) : undefined;
+            }
+          : undefined,
+        onRound: async round => {
+          const issues = round.issues.map(issue => `- ${issue}`).join('\n');
+          await this.record(run, 'thought', `Critique round ${round.round} scored ${round.score}${issues ? `:\n${issues}` : ''}`, {
+            critique: round.round,
+            score: round.score,
+            passed: round.passed
+          });
+          if (round.revision !== undefined) {
+            latest = round.revision;
+            await this.record(run, 'thought', `Revision ${round.round}:\n${round.revision}`, { revision: round.round });
+          }
+        }
+      });
+    } catch (error) {
+      if (!run.signal.aborted) throw error;
+    }
+
+    if (!refined || run.signal.aborted) {
+      return this.stoppedEarly<T>(run, result.toolCalls ?? [], refined?.draft ?? latest);
+    }
+
+    return {
+      ...result,
+      result: refined.draft,
+      ...(schema ? { output: this.parseOutput<T>(refined.draft, schema).value } : {}),
+      critique: refined.rounds
+    };
+  }
+
+  private async afterResponse<T>(result: TaskResult<T>, run: TaskRun): Promise<TaskResult<T>> {
+    try {
+      return await this.plugins.run('afterResponse', result, this.hookContext(run));
+    } catch (error) {
+      const failure = error instanceof Error ? error : new Error('Unknown error');
+      logger.error(LogComponent.AGENT, 'Response hook failed', {
+        error: failure.message,
+        goal: run.task.goal
+      });
+      await this.plugins.error(failure, 'task', this.hookContext(run));
+      return { ...result, success: false, result: failure.message };
+    }
+  }
+
+  // Swaps in the rewritten task, or returns the result for a rejected one
+  private async guardInput<T>(run: TaskRun): Promise<TaskResult<T> | undefined> {
+    if (this.guardrails.isEmpty) {
+      return undefined;
+    }
+
+    const input = await this.guardrails.checkInput(run.task, this.id);
+    run.guardrails.push(...input.results);
+    if (input.rejection) {
+      return {
+        success: false,
+        result: describeRejection(input.rejection),
+        status: 'rejected',
+        guardrails: run.guardrails
+      };
+    }
+    run.task = input.value;
+    return undefined;
+  }
+
+  // Only successful responses are checked; failures and early stops pass through as they are
+  private async guardResponse<T>(result: TaskResult<T>, run: TaskRun): Promise<TaskResult<T>> {
+    if (this.guardrails.isEmpty) {
+      return result;
+    }
+
+    const withResults = (guarded: TaskResult<T>): TaskResult<T> =>
+      run.guardrails.length > 0 ? { ...guarded, guardrails: run.guardrails } : guarded;
+    if (!result.success) {
+      return withResults(result);
+    }
+
+    const response = typeof result.result === 'string' ? result.result : JSON.stringify(result.result);
+    const checked = await this.guardrails.checkOutput(response, run.task, this.id);
+    run.guardrails.push(...checked.results);
+
+    const { output: _output, ...rest } = result;
+    if (checked.rejection) {
+      return withResults({ ...rest, success: false, result: describeRejection(checked.rejection), status: 'rejected' });
+    }
+    if (checked.value === response) {
+      return withResults(result);
+    }
+
+    // Keep the validated output in step with the rewritten text
+    if (run.task.outputSchema) {
+      const parsed = this.parseOutput<T>(checked.value, run.task.outputSchema);
+      if (parsed.errors.length > 0) {
+        return withResults({
+          ...rest,
+          success: false,
+          result: `Rewritten response no longer matches the output schema:\n${formatSchemaErrors(parsed.errors)}`,
+          validationErrors: parsed.errors,
+          status: 'rejected'
+        });
+      }
+      return withResults({ ...rest, result: checked.value, output: parsed.value });
+    }
+    return withResults({ ...rest, result: checked.value });
+  }
+
+  private hookContext(run: TaskRun): HookContext {
+    return { agentId: this.id, task: run.task, threadId: run.threadId, signal: run.signal };
+  }
+
+  private stoppedEarly<T>(run: TaskRun, toolCalls: ToolCallRecord[], partial: string): TaskResult<T> {
+    const exceeded = run.budget?.exceeded;
+    const reason = exceeded ? `${exceeded} budget exceeded` : abortError(run.signal).message;
+    logger.warn(LogComponent.AGENT, exceeded ? 'Task stopped by budget' : 'Task cancelled', {
+      goal: run.task.goal,
+      task: run.task.task,
+      reason,
+      ...(run.budget ? { usage: run.budget.getUsage() } : {})
+    });
+
+    return {
+      success: false,
+      result: partial || `Task ${exceeded ? 'stopped' : 'cancelled'}: ${reason}`,
+      status: exceeded ? 'budget_exceeded' : 'cancelled',
+      toolCalls
+    };
+  }
+
+  private parseOutput<T>(text: string, schema: JsonSchema): { value?: T; errors: SchemaValidationError[] } {
+    let value: unknown;
+    try {
+      value = extractJson(text);
+    } catch (error) {
+      return {
+        errors: [{
+          path: '$',
+          message: `is not valid JSON (${error instanceof Error ? error.message : 'parse error'})`
+        }]
+      };
+    }
+
+    const errors = validateSchema(value, schema);
+    return errors.length > 0 ? { errors } : { value: value as T, errors };
+  }
+
+  private async recallMemories(task: AgentTask): Promise<MemoryNode[]> {
+    if (this.memoryOptions.types.length === 0 || this.memoryOptions.recallLimit <= 0) {
+      return [];
+    }
+
+    try {
+      const memories = await this.memory.recall(`${task.goal}\n${task.task}`, {
+        limit: this.memoryOptions.recallLimit,
+        minRelevance: this.memoryOptions.minRelevance,
+        type: this.memoryOptions.types
+      });
+
+      logger.debug(LogComponent.MEMORY, 'Recalled memories for task', {
+        goal: task.goal,
+        count: memories.length
+      });
+
+      return memories;
+    } catch (error) {
+      logger.warn(LogComponent.MEMORY, 'Failed to recall memories for task', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        goal: task.goal
+      });
+      return [];
+    }
+  }
+
+  private formatMemories(memories: MemoryNode[]): string {
+    if (memories.length === 0) return '';
+
+    const sections: Array<[MemoryType, string]> = [
+      ['fact', 'Relevant facts'],
+      ['experience', 'Relevant past experiences'],
+      ['learning', 'Lessons learned'],
+      ['summary', 'Memory summaries']
+    ];
+
+    return sections
+      .map(([type, heading]) => {
+        const matching = memories.filter(m => m.type === type);
+        if (matching.length === 0) return '';
+        return `\n${heading}:\n${matching.map(m => `- ${m.content}`).join('\n')}\n`;
+      })
+      .join('');
+  }
+
+  private async rememberTask(task: AgentTask, result: TaskResult, extractLearnings: boolean = true): Promise<void> {
+    if (!this.memoryOptions.storeExperiences) return;
+
+    const outcome = typeof result.result === 'string' ? result.result : JSON.stringify(result.result);
+    const toolsUsed = Array.from(new Set((result.toolCalls ?? []).map(call => call.tool)));
+    const experience = [
+      `Task "${task.task}" for goal "${task.goal}" ${result.success ? 'succeeded' : 'failed'}.`,
+      toolsUsed.length > 0 ? `Tools used: ${toolsUsed.join(', ')}.` : '',
+      `Outcome: ${outcome.slice(0, 500)}`
+    ].filter(Boolean).join(' ');
+
+    const metadata = {
+      goal: task.goal,
+      task: task.task,
+      role: this.roleDefinition?.name,
+      success: result.success
+    };
+
+    try {
+      const experienceId = await this.memory.store({
+        type: 'experience',
+        content: experience,
+        timestamp: new Date(),
+        metadata
+      });
+
+      if (!this.memoryOptions.extractLearnings || !extractLearnings) return;
+
+      const learning = await this.claude.complete(`
+Extract one reusable lesson from this task outcome:
+
+${experience}
+
+Write a single sentence that would help with similar tasks in the future.
+Return "NONE" if there is nothing worth remembering.`);
+
+      if (learning.trim() && learning.trim().toUpperCase() !== 'NONE') {
+        await this.memory.store({
+          type: 'learning',
+          content: learning.trim(),
+          timestamp: new Date(),
+          metadata,
+          references: [experienceId]
+        });
+      }
+    } catch (error) {
+      logger.warn(LogComponent.MEMORY, 'Failed to store task memories', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        goal: task.goal
+      });
+    }
+  }
+
+  // Wraps the call in the plugin hooks; hook failures fail the call rather than the task
+  private async runTool(toolUse: ToolUseContent, run: TaskRun): Promise<ToolCallRecord> {
+    const context = this.hookContext(run);
+    let call: ToolCall = { id: toolUse.id, tool: toolUse.name, input: toolUse.input };
+
+    try {
+      call = await this.plugins.run('beforeToolCall', call, context);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return { ...call, result: failedToolResult(message, new Date()) };
+    }
+
+    const record = await (run.trace ? run.trace.tool(call, () => this.callTool(call, run)) : this.callTool(call, run));
+    try {
+      return await this.plugins.run('afterToolCall', record, context);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return { ...record, result: failedToolResult(message, record.result.metadata.startTime) };
+    }
+  }
+
+  private async callTool(call: ToolCall, run: TaskRun): Promise<ToolCallRecord> {
+    const startTime = new Date();
+    const tool = this.tools.find(t => t.name === call.tool);
+
+    const failure = (error: string, approval?: ApprovalRecord): ToolResult =>
+      failedToolResult(error, startTime, approval);
+
+    if (!tool && call.tool === CLARIFICATION_TOOL.name && this.clarificationHandler) {
+      return this.askForClarification(call, run, this.clarificationHandler);
+    }
+
+    if (!tool) {
+      logger.warn(LogComponent.TOOL, 'Model requested unknown tool', { tool: call.tool });
+      return { id: call.id, tool: call.tool, input: call.input, result: failure(`Unknown tool: ${call.tool}`) };
+    }
+
+    let params = call.input;
+    let approval: ApprovalRecord | undefined;
+
+    if (tool.requiresApproval) {
+      approval = await this.requestApproval(tool, params, run);
+      if (approval.decision === 'deny') {
+        return {
+          id: call.id,
+          tool: tool.name,
+          input: call.input,
+          result: failure(`Tool call denied: ${approval.reason}`, approval)
+        };
+      }
+      if (approval.decision === 'modify') {
+        params = approval.params;
+      }
+    }
+
+    logger.debug(LogComponent.TOOL, 'Executing tool', { tool: tool.name, toolUseId: call.id });
+
+    let result: ToolResult;
+    try {
+      result = await tool.execute(params, run.signal);
+    } catch (error) {
+      result = failure(error instanceof Error ? error.message : 'Unknown error');
+      await this.plugins.error(error instanceof Error ? error : new Error(String(error)), 'tool', this.hookContext(run));
+    }
+
+    if (approval) {
+      result = { ...result, metadata: { ...result.metadata, approval } };
+    }
+
+    logger.info(LogComponent.TOOL, 'Tool execution finished', {
+      tool: tool.name,
+      success: result.success,
+      duration: result.metadata.duration
+    });
+
+    return { id: call.id, tool: tool.name, input: params, result };
+  }
+
+  // Pauses the task until a human answers, then hands the answer back to the model as the tool result
+  private async askForClarification(
+    call: ToolCall,
+    run: TaskRun,
+    handler: ClarificationHandler
+  ): Promise<ToolCallRecord> {
+    const startTime = new Date();
+    const input = (call.input ?? {}) as { question?: unknown; context?: unknown; options?: unknown };
+    if (typeof input.question !== 'string' || !input.question.trim()) {
+      return { ...call, result: failedToolResult('ask_clarification needs a question', startTime) };
+    }
+
+    const question = input.question.trim();
+    run.state = 'waiting_for_input';
+    run.question = question;
+    await this.record(run, 'communication', `Asked for clarification: ${question}`, {
+      state: 'waiting_for_input'
+    });
+    logger.info(LogComponent.AGENT, 'Task waiting for input', {
+      id: this.id,
+      goal: run.task.goal,
+      question
+    });
+
+    let record: ClarificationRecord;
+    try {
+      record = await handler.ask({
+        question,
+        context: typeof input.context === 'string' ? input.context : undefined,
+        options: Array.isArray(input.options) ? input.options.map(String) : undefined,
+        requestedBy: this.id,
+        metadata: { goal: run.task.goal, task: run.task.task, threadId: run.threadId }
+      }, run.signal);
+    } finally {
+      run.state = 'running';
+      run.question = undefined;
+    }
+
+    if (record.answer !== undefined) {
+      await this.record(run, 'communication', `Answer from ${record.answeredBy ?? 'a human'}: ${record.answer}`, {
+        clarification: record.requestId,
+        answeredBy: record.answeredBy
+      });
+    } else {
+      await this.record(run, 'communication', `No answer to "${question}": ${record.reason}`, {
+        clarification: record.requestId
+      });
+    }
+
+    const endTime = new Date();
+    return {
+      ...call,
+      result: {
+        success: true,
+        output: record.answer !== undefined
+          ? { answer: record.answer }
+          : { answer: null, note: `No answer (${record.reason}). Proceed with your best judgement and state your assumptions.` },
+        metadata: {
+          startTime,
+          endTime,
+          duration: endTime.getTime() - startTime.getTime(),
+          clarification: record
+        }
+      }
+    };
+  }
+
+  private async requestApproval(tool: Tool, params: unknown, run: TaskRun): Promise<ApprovalRecord> {
+    if (!this.approvalHandler) {
+      const now = new Date();
+      logger.warn(LogComponent.TOOL, 'Tool requires approval but no approval handler is configured', {
+        tool: tool.name
+      });
+      return {
+        requestId: crypto.randomUUID(),
+        decision: 'deny',
+        reason: 'No approval handler configured',
+        requestedAt: now,
+        decidedAt: now
+      };
+    }
+
+    return this.approvalHandler.requestApproval({
+      tool: tool.name,
+      description: tool.description,
+      params,
+      requestedBy: this.id,
+      metadata: {
+        goal: run.task.goal,
+        task: run.task.task
+      }
+    }, run.signal);
+  }
+
   getMetricsSummary() {
     return this.claude.getMetricsSummary();
   }
@@ -0,0 +1,66 @@
+import { promises as fs } from 'fs';
+import { writeFileAtomic } from '../../utils/files.js';
+import type { AgentTask } from './Agent.js';
+import type { ContextSnapshot } from './Context.js';
+import type { MemorySnapshot } from './Memory.js';
+import type { RoleDefinition } from '../../roles/types.js';
+
+export const SNAPSHOT_VERSION = 1;
+
+export interface InterruptedTask {
+  task: AgentTask;
+  threadId?: string;
+}
+
+export interface AgentSnapshot {
+  version: number;
+  createdAt: Date;
+  agentId: string;
+  rolePath: string;
+  role: RoleDefinition;
+  context?: ContextSnapshot;
+  memory: MemorySnapshot;
+  inFlight: InterruptedTask[]; // Tasks that were still running when the snapshot was taken
+}
+
+// Upgrades a snapshot of version N to version N + 1. Add an entry whenever SNAPSHOT_VERSION is bumped.
+const MIGRATIONS: Record<number, (snapshot: Record<string, any>) => Record<string, any>> = {};
+
+export function migrateSnapshot(raw: Record<string, any>): AgentSnapshot {
+  let snapshot = raw;
+  const from = snapshot.version;
+
+  if (typeof from !== 'number' || from < 1) {
+    throw new Error('Snapshot has no valid version');
+  }
+  if (from > SNAPSHOT_VERSION) {
+    throw new Error(`Snapshot version ${from} is newer than supported version ${SNAPSHOT_VERSION}`);
+  }
+
+  while (snapshot.version < SNAPSHOT_VERSION) {
+    const migrate = MIGRATIONS[snapshot.version];
+    if (!migrate) {
+      throw new Error(`No migration from snapshot version ${snapshot.version}`);
+    }
+    snapshot = { ...migrate(snapshot), version: snapshot.version + 1 };
+  }
+
+  if (typeof snapshot.agentId !== 'string' || !snapshot.role || !snapshot.memory) {
+    throw new Error('Snapshot is missing agent id, role or memory');
+  }
+
+  return {
+    ...snapshot,
+    createdAt: new Date(snapshot.createdAt),
+    inFlight: snapshot.inFlight ?? []
+  } as AgentSnapshot;
+}
+
+export async function writeSnapshot(path: string, snapshot: AgentSnapshot): Promise<void> {
+  await writeFileAtomic(path, JSON.stringify(snapshot, null, 2));
+}
+
+export async function readSnapshot(path: string): Promise<AgentSnapshot> {
+  const content = await fs.readFile(path, 'utf-8');
+  return migrateSnapshot(JSON.parse(content));
+}
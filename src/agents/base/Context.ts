@@ -5,6 +5,7 @@ import { VectorStore, VectorStoreConfig, createVectorStore, VectorMatch } from '
 
 export interface ContextConfig {
   maxTokens: number;
+  autoCompleteThreads?: boolean; // Ask Claude after each node whether the thread is done
   claude: ClaudeClient;
   embeddings?: EmbeddingsProvider;
   vectorStore?: VectorStoreConfig;
@@ -38,7 +39,14 @@ interface ThreadWithSummary extends ThreadBase {
   summary: string;
 }
 
-type ContextThread = ThreadWithoutSummary | ThreadWithSummary;
+export type ContextThread = ThreadWithoutSummary | ThreadWithSummary;
+
+export interface ContextSnapshot {
+  id: string;
+  nodes: ContextNode[];
+  threads: ContextThread[];
+  summaries: Array<[string, string]>;
+}
 
 // Ensure all threads have nodes initialized
 function createEmptyThread(id: string, status: ThreadBase['status']): ThreadWithoutSummary {
@@ -171,6 +179,47 @@ export class Context {
     return id;
   }
 
+  snapshot(): ContextSnapshot {
+    return {
+      id: this.id,
+      nodes: this.nodes.map(node => ({ ...node })),
+      threads: Array.from(this.threads.values()).map(thread => ({ ...thread, nodes: [...thread.nodes] })),
+      summaries: Array.from(this.summaries.entries())
+    };
+  }
+
+  // Replaces nodes, threads and summaries with a snapshot and rebuilds the vector index from it
+  async restore(snapshot: ContextSnapshot): Promise<void> {
+    const reviveNode = (node: ContextNode): ContextNode => ({ ...node, timestamp: new Date(node.timestamp) });
+
+    const nodes: ContextNode[] = [];
+    for (const node of snapshot.nodes.filter(isValidContextNode).map(reviveNode)) {
+      nodes.push(hasEmbedding(node) ? node : { ...node, embedding: await this.embeddings.generateEmbedding(node.content) });
+    }
+
+    await this.vectorStore.clear();
+    this.id = snapshot.id;
+    this.nodes = nodes;
+    this.threads = new Map(
+      snapshot.threads
+        .filter(isValidThread)
+        .map(thread => [thread.id, { ...thread, nodes: thread.nodes.map(reviveNode) }])
+    );
+    this.summaries = new Map(snapshot.summaries.filter(([, summary]) => isValidSummary(summary)));
+
+    await this.vectorStore.upsert(nodes.filter(hasEmbedding).map(node => ({
+      id: node.id,
+      vector: node.embedding,
+      metadata: {
+        type: node.type,
+        timestamp: node.timestamp,
+        threadId: node.threadId,
+        parentId: node.parentId,
+        ...node.metadata
+      }
+    })));
+  }
+
   async createThread(metadata?: Record<string, unknown>): Promise<string> {
     const id = crypto.randomUUID();
     const thread: ThreadWithoutSummary = {
@@ -184,6 +233,52 @@ export class Context {
     return id;
   }
 
+  async closeThread(threadId: string): Promise<string> {
+    const thread = this.threads.get(threadId);
+    if (!thread) {
+      throw new Error(`Thread not found: ${threadId}`);
+    }
+
+    if (hasValidSummary(thread) && thread.status !== 'active') {
+      return thread.summary;
+    }
+
+    const summary = await this.summarizeThread(thread);
+    const completedThread = {
+      id: thread.id,
+      nodes: [...thread.nodes],
+      status: 'completed' as const,
+      summary,
+      metadata: thread.metadata ? { ...thread.metadata } : undefined
+    } satisfies ThreadWithSummary;
+
+    this.threads.set(threadId, completedThread);
+    return summary;
+  }
+
+  getThread(threadId: string): ContextThread | undefined {
+    return this.threads.get(threadId);
+  }
+
+  findThreads(filter: {
+    status?: ContextThread['status'][];
+    metadata?: Record<string, unknown>;
+  } = {}): ContextThread[] {
+    return Array.from(this.threads.values()).filter(thread => {
+      if (filter.status && !filter.status.includes(thread.status)) {
+        return false;
+      }
+
+      if (filter.metadata) {
+        return Object.entries(filter.metadata).every(
+          ([key, value]) => thread.metadata?.[key] === value
+        );
+      }
+
+      return true;
+    });
+  }
+
   private async updateThread(threadId: string, node: ContextNode): Promise<void> {
     const thread = this.threads.get(threadId);
     if (!thread) {
@@ -207,7 +302,7 @@ export class Context {
     };
 
     // Check if thread is complete
-    if (await this.isThreadComplete(updatedThread)) {
+    if (this.config.autoCompleteThreads !== false && await this.isThreadComplete(updatedThread)) {
       const summary = await this.summarizeThread(updatedThread);
       
       // Create completed thread with required properties
@@ -279,6 +374,11 @@ Keep the summary concise but include all critical information.`;
     return summary;
   }
 
+  // Condenses nodes that live outside the context, such as old conversation turns
+  async summarizeNodes(nodes: Array<Pick<ContextNode, 'type' | 'content'>>): Promise<string> {
+    return this.summarizeChunk(nodes);
+  }
+
   async optimize(): Promise<void> {
     // 1. Remove irrelevant nodes
     await this.pruneIrrelevant();
@@ -562,7 +662,7 @@ Create a concise merged version that:
     return chunks;
   }
 
-  private async summarizeChunk(nodes: ContextNode[]): Promise<string> {
+  private async summarizeChunk(nodes: Array<Pick<ContextNode, 'type' | 'content'>>): Promise<string> {
     const prompt = `
 Summarize this chunk of context:
 
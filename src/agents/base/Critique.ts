@@ -0,0 +1,180 @@
+import type { ClaudeClient } from '../../claude/client.js';
+import { logger } from '../../logging/base.js';
+import { LogComponent } from '../../logging/types.js';
+import type { RoleDefinition } from '../../roles/types.js';
+import type { JsonSchema } from '../../schema/types.js';
+import { extractJson, formatSchemaErrors, validateSchema } from '../../schema/validator.js';
+import type { AgentTask } from './Agent.js';
+
+export interface CritiqueOptions {
+  maxRounds?: number; // Critique and revise at most this many times
+  threshold?: number; // Score from 0 to 1 that counts as good enough
+}
+
+export interface CritiqueRound {
+  round: number;
+  score: number;
+  issues: string[];
+  passed: boolean;
+  revision?: string; // Absent when the draft passed or could not be revised
+}
+
+export interface RefineResult {
+  draft: string;
+  rounds: CritiqueRound[];
+}
+
+export interface RefineRequest {
+  draft: string;
+  task: AgentTask;
+  role: RoleDefinition;
+  signal?: AbortSignal;
+  validate?: (draft: string) => string | undefined; // Returns an error when a revision is unusable
+  onRound?: (round: CritiqueRound) => Promise<void>;
+}
+
+const CRITIQUE_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['score', 'issues'],
+  properties: {
+    score: { type: 'number', minimum: 0, maximum: 1 },
+    issues: { type: 'array', items: { type: 'string' } }
+  }
+};
+
+export class Critic {
+  private readonly claude: Pick<ClaudeClient, 'complete'>;
+  private readonly maxRounds: number;
+  private readonly threshold: number;
+
+  constructor(claude: Pick<ClaudeClient, 'complete'>, options: CritiqueOptions = {}) {
+    this.claude = claude;
+    this.maxRounds = options.maxRounds ?? 2;
+    this.threshold = options.threshold ?? 0.8;
+  }
+
+  async refine(request: RefineRequest): Promise<RefineResult> {
+    const rounds: CritiqueRound[] = [];
+    let draft = request.draft;
+
+    for (let round = 1; round <= this.maxRounds; round++) {
+      let review: { score: number; issues: string[] };
+      try {
+        review = await this.critique(draft, request);
+      } catch (error) {
+        if (request.signal?.aborted) throw error; // The caller decides what a cancelled run returns
+        logger.warn(LogComponent.AGENT, 'Self-critique failed, keeping current draft', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+          goal: request.task.goal,
+          round
+        });
+        break;
+      }
+
+      const entry: CritiqueRound = {
+        round,
+        score: review.score,
+        issues: review.issues,
+        passed: review.score >= this.threshold
+      };
+      rounds.push(entry);
+
+      if (!entry.passed) {
+        const revision = await this.revise(draft, entry, request);
+        if (revision !== undefined) {
+          entry.revision = revision;
+          draft = revision;
+        }
+      }
+
+      logger.debug(LogComponent.AGENT, 'Self-critique round finished', {
+        goal: request.task.goal,
+        round,
+        score: entry.score,
+        passed: entry.passed,
+        revised: entry.revision !== undefined
+      });
+
+      await request.onRound?.(entry);
+      if (entry.passed || entry.revision === undefined) break;
+    }
+
+    return { draft, rounds };
+  }
+
+  private async critique(
+    draft: string,
+    request: RefineRequest
+  ): Promise<{ score: number; issues: string[] }> {
+    const response = await this.claude.complete(`
+Review this draft response written by a ${request.role.name}.
+
+Responsibilities:
+${request.role.responsibilities.map(r => `- ${r}`).join('\n')}
+
+Instructions:
+${request.role.instructions.map(i => `- ${i}`).join('\n')}
+
+Task:
+Goal: ${request.task.goal}
+Task: ${request.task.task}
+
+Draft:
+${draft}
+
+Score how well the draft follows the instructions and fulfils the responsibilities for this task,
+from 0 (unusable) to 1 (nothing to improve), and list the specific issues to fix.
+Respond with only JSON: {"score": 0.0, "issues": ["..."]}`, { signal: request.signal });
+
+    const parsed = extractJson(response);
+    const errors = validateSchema(parsed, CRITIQUE_SCHEMA);
+    if (errors.length > 0) {
+      throw new Error(`Invalid critique:\n${formatSchemaErrors(errors)}`);
+    }
+
+    return parsed as { score: number; issues: string[] };
+  }
+
+  private async revise(
+    draft: string,
+    review: CritiqueRound,
+    request: RefineRequest
+  ): Promise<string | undefined> {
+    try {
+      const revision = (await this.claude.complete(`
+Revise this draft response for the task below so it fixes every issue listed.
+
+Task:
+Goal: ${request.task.goal}
+Task: ${request.task.task}
+
+Draft:
+${draft}
+
+Issues:
+${review.issues.map(issue => `- ${issue}`).join('\n')}
+
+Respond with only the revised response, in the same format as the draft.`, { signal: request.signal })).trim();
+
+      const error = request.validate?.(revision);
+      if (error) {
+        logger.warn(LogComponent.AGENT, 'Discarding revision that failed validation', {
+          goal: request.task.goal,
+          round: review.round,
+          error
+        });
+        return undefined;
+      }
+
+      return revision;
+    } catch (error) {
+      if (request.signal?.aborted) throw error;
+      logger.warn(LogComponent.AGENT, 'Revision failed, keeping current draft', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        goal: request.task.goal,
+        round: review.round
+      });
+      return undefined;
+    }
+  }
+}
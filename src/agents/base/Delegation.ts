@@ -0,0 +1,172 @@
+import type { Backplane } from '../../backplane/base.js';
+import type { MessageEnvelope } from '../../backplane/types.js';
+import { createEnvelope } from '../../backplane/envelope.js';
+import { logger } from '../../logging/base.js';
+import { LogComponent } from '../../logging/types.js';
+import type { AgentMessage, AgentTask, TaskResult } from './Agent.js';
+import { Inbox, MESSAGE_REJECTED, TASK_REQUEST, TASK_RESPONSE } from './Inbox.js';
+
+export interface DelegationOptions {
+  role?: string;
+  capabilities?: string[];
+  agentIds?: string[]; // Try these collaborators in order instead of searching discovery
+  exclude?: string[]; // Agent ids that should not receive the subtask
+  timeout?: number; // Milliseconds to wait for each collaborator
+  maxAttempts?: number;
+  priority?: number;
+  threadId?: string; // Parent thread whose context travels with the subtask
+}
+
+export interface DelegationAttempt {
+  agentId: string;
+  outcome: 'completed' | 'timeout' | 'rejected' | 'error';
+  error?: string;
+}
+
+export interface DelegationResult extends TaskResult {
+  agentId?: string;
+  attempts: DelegationAttempt[];
+}
+
+export interface DelegatorConfig {
+  agentId: string;
+  backplane: Pick<Backplane, 'findCollaborators' | 'sendMessage'>;
+  inbox: Inbox;
+  defaultTimeout?: number;
+}
+
+interface PendingDelegation {
+  resolve: (message: AgentMessage) => void;
+  timer: NodeJS.Timeout;
+}
+
+class DelegationTimeoutError extends Error {
+  constructor(agentId: string, timeout: number) {
+    super(`No reply from ${agentId} within ${timeout}ms`);
+    this.name = 'DelegationTimeoutError';
+  }
+}
+
+export class Delegator {
+  private readonly agentId: string;
+  private readonly backplane: DelegatorConfig['backplane'];
+  private readonly defaultTimeout: number;
+  private pending: Map<string, PendingDelegation> = new Map();
+
+  constructor(config: DelegatorConfig) {
+    this.agentId = config.agentId;
+    this.backplane = config.backplane;
+    this.defaultTimeout = config.defaultTimeout ?? 300000; // 5 minutes
+
+    const settle = (message: AgentMessage, envelope: MessageEnvelope) => {
+      const correlationId = envelope.metadata.correlationId;
+      const pending = correlationId ? this.pending.get(correlationId) : undefined;
+      if (!correlationId || !pending) return;
+
+      clearTimeout(pending.timer);
+      this.pending.delete(correlationId);
+      pending.resolve(message);
+    };
+
+    config.inbox.on(TASK_RESPONSE, settle);
+    config.inbox.on(MESSAGE_REJECTED, settle);
+  }
+
+  async delegate(task: AgentTask, options: DelegationOptions = {}): Promise<DelegationResult> {
+    const excluded = new Set([this.agentId, ...(options.exclude ?? [])]);
+    const candidates = (options.agentIds ?? await this.backplane.findCollaborators({
+      role: options.role,
+      capabilities: options.capabilities
+    })).filter(id => !excluded.has(id));
+
+    const attempts: DelegationAttempt[] = [];
+    const maxAttempts = Math.min(options.maxAttempts ?? 3, candidates.length);
+    const timeout = options.timeout ?? this.defaultTimeout;
+
+    logger.info(LogComponent.AGENT, 'Delegating subtask', {
+      from: this.agentId,
+      task: task.task,
+      role: options.role,
+      capabilities: options.capabilities,
+      candidateCount: candidates.length
+    });
+
+    for (const agentId of candidates.slice(0, maxAttempts)) {
+      try {
+        const reply = await this.request(agentId, task, timeout, options);
+
+        if (reply.type === MESSAGE_REJECTED) {
+          attempts.push({ agentId, outcome: 'rejected', error: reply.content?.reason });
+          continue;
+        }
+
+        attempts.push({ agentId, outcome: 'completed' });
+        const result = reply.content as TaskResult;
+        return { ...result, agentId, attempts };
+      } catch (error) {
+        const outcome = error instanceof DelegationTimeoutError ? 'timeout' : 'error';
+        attempts.push({
+          agentId,
+          outcome,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+        logger.warn(LogComponent.AGENT, 'Delegation attempt failed', {
+          from: this.agentId,
+          to: agentId,
+          outcome,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+
+    const reason = candidates.length === 0
+      ? 'No collaborators matched the delegation request'
+      : `Delegation failed after ${attempts.length} attempt(s)`;
+
+    logger.error(LogComponent.AGENT, 'Delegation failed', {
+      from: this.agentId,
+      task: task.task,
+      attempts
+    });
+
+    return { success: false, result: reason, attempts };
+  }
+
+  private async request(
+    agentId: string,
+    task: AgentTask,
+    timeout: number,
+    options: DelegationOptions
+  ): Promise<AgentMessage> {
+    const correlationId = crypto.randomUUID();
+    const envelope = createEnvelope(this.agentId, agentId, { type: TASK_REQUEST, content: task }, {
+      priority: options.priority,
+      metadata: {
+        correlationId,
+        contextId: options.threadId,
+        ttl: timeout
+      }
+    });
+
+    const reply = new Promise<AgentMessage>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(correlationId);
+        reject(new DelegationTimeoutError(agentId, timeout));
+      }, timeout);
+      this.pending.set(correlationId, { resolve, timer });
+    });
+
+    try {
+      await this.backplane.sendMessage(agentId, envelope);
+    } catch (error) {
+      const pending = this.pending.get(correlationId);
+      if (pending) {
+        clearTimeout(pending.timer);
+        this.pending.delete(correlationId);
+      }
+      throw error;
+    }
+
+    return reply;
+  }
+}
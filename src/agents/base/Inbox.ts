@@ -0,0 +1,218 @@
+import type { Backplane } from '../../backplane/base.js';
+import type { MessageEnvelope } from '../../backplane/types.js';
+import { createEnvelope } from '../../backplane/envelope.js';
+import { logger } from '../../logging/base.js';
+import { LogComponent } from '../../logging/types.js';
+import type { AgentMessage } from './Agent.js';
+
+// Returning a message from a handler sends it back to the sender as a reply
+export type MessageHandler = (
+  message: AgentMessage,
+  envelope: MessageEnvelope
+) => Promise<AgentMessage | void> | AgentMessage | void;
+
+export interface MessageHandlerOptions {
+  queued?: boolean; // Subject to the inbox concurrency limit and backpressure
+}
+
+export interface InboxOptions {
+  maxConcurrent?: number;
+  maxQueueSize?: number;
+}
+
+export interface InboxConfig extends InboxOptions {
+  agentId: string;
+  backplane: Pick<Backplane, 'subscribe' | 'unsubscribe' | 'sendMessage'>;
+  isBusy?: () => boolean; // Work outside the inbox that should also hold back queued messages
+  transform?: (envelope: MessageEnvelope) => Promise<MessageEnvelope>; // Rewrites messages before routing
+}
+
+interface RegisteredHandler {
+  handler: MessageHandler;
+  queued: boolean;
+}
+
+export const TASK_REQUEST = 'task_request';
+export const TASK_RESPONSE = 'task_response';
+export const CONTEXT_SHARE = 'context_share';
+export const STATUS_PING = 'status_ping';
+export const STATUS_PONG = 'status_pong';
+export const MESSAGE_REJECTED = 'message_rejected';
+
+export class Inbox {
+  private readonly agentId: string;
+  private readonly backplane: InboxConfig['backplane'];
+  private readonly maxConcurrent: number;
+  private readonly maxQueueSize: number;
+  private readonly isBusy: () => boolean;
+  private readonly transform?: InboxConfig['transform'];
+  private handlers: Map<string, RegisteredHandler> = new Map();
+  private queue: MessageEnvelope[] = [];
+  private running: number = 0;
+  private isListening: boolean = false;
+
+  constructor(config: InboxConfig) {
+    this.agentId = config.agentId;
+    this.backplane = config.backplane;
+    this.maxConcurrent = config.maxConcurrent ?? 1;
+    this.maxQueueSize = config.maxQueueSize ?? 10;
+    this.isBusy = config.isBusy ?? (() => false);
+    this.transform = config.transform;
+  }
+
+  on(type: string, handler: MessageHandler, options: MessageHandlerOptions = {}): void {
+    this.handlers.set(type, { handler, queued: options.queued ?? false });
+  }
+
+  off(type: string): void {
+    this.handlers.delete(type);
+  }
+
+  async start(): Promise<void> {
+    if (this.isListening) return;
+    await this.backplane.subscribe(this.agentId, envelope => this.receive(envelope));
+    this.isListening = true;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.isListening) return;
+    await this.backplane.unsubscribe(this.agentId);
+    this.isListening = false;
+  }
+
+  getQueueDepth(): number {
+    return this.queue.length;
+  }
+
+  getRunningCount(): number {
+    return this.running;
+  }
+
+  async receive(incoming: MessageEnvelope): Promise<void> {
+    // Broadcasts come back to the sender too
+    if (incoming.routing.source === this.agentId) return;
+
+    let envelope = incoming;
+    if (this.transform) {
+      try {
+        envelope = await this.transform(incoming);
+      } catch (error) {
+        logger.error(LogComponent.AGENT, 'Dropping message that could not be transformed', {
+          agentId: this.agentId,
+          type: incoming.message.type,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+        return;
+      }
+    }
+
+    const { type } = envelope.message;
+    const registered = this.handlers.get(type);
+    if (!registered) {
+      logger.debug(LogComponent.AGENT, 'No handler for message type', {
+        agentId: this.agentId,
+        type
+      });
+      return;
+    }
+
+    if (!registered.queued) {
+      await this.dispatch(envelope, registered);
+      return;
+    }
+
+    if (this.hasCapacity()) {
+      await this.runQueued(envelope, registered);
+      return;
+    }
+
+    if (this.queue.length >= this.maxQueueSize) {
+      logger.warn(LogComponent.AGENT, 'Inbox full, rejecting message', {
+        agentId: this.agentId,
+        type,
+        source: envelope.routing.source,
+        queueDepth: this.queue.length
+      });
+      await this.reply(envelope, {
+        type: MESSAGE_REJECTED,
+        content: {
+          reason: 'busy',
+          rejectedType: type,
+          queueDepth: this.queue.length
+        }
+      });
+      return;
+    }
+
+    this.queue.push(envelope);
+    this.queue.sort((a, b) => b.routing.priority - a.routing.priority);
+  }
+
+  async reply(envelope: MessageEnvelope, message: AgentMessage): Promise<void> {
+    if (envelope.routing.source === 'unknown') return;
+
+    const response = createEnvelope(this.agentId, envelope.routing.source, message, {
+      metadata: {
+        correlationId: envelope.metadata.correlationId ?? envelope.id,
+        contextId: envelope.metadata.contextId
+      }
+    });
+    await this.backplane.sendMessage(envelope.routing.source, response);
+  }
+
+  private async runQueued(envelope: MessageEnvelope, registered: RegisteredHandler): Promise<void> {
+    this.running++;
+    try {
+      await this.dispatch(envelope, registered);
+    } finally {
+      this.running--;
+      this.drain();
+    }
+  }
+
+  // Starts queued messages while there is capacity; call when outside work finishes
+  drain(): void {
+    while (this.hasCapacity() && this.queue.length > 0) {
+      const next = this.queue.shift()!;
+      const registered = this.handlers.get(next.message.type);
+      if (registered) {
+        void this.runQueued(next, registered);
+      }
+    }
+  }
+
+  // Turns away everything still waiting, e.g. when the agent is stopping
+  async rejectQueued(reason: string): Promise<number> {
+    const rejected = this.queue.splice(0);
+    for (const envelope of rejected) {
+      await this.reply(envelope, {
+        type: MESSAGE_REJECTED,
+        content: {
+          reason,
+          rejectedType: envelope.message.type,
+          queueDepth: 0
+        }
+      });
+    }
+    return rejected.length;
+  }
+
+  private hasCapacity(): boolean {
+    return this.running < this.maxConcurrent && !this.isBusy();
+  }
+
+  private async dispatch(envelope: MessageEnvelope, registered: RegisteredHandler): Promise<void> {
+    try {
+      const response = await registered.handler(envelope.message, envelope);
+      if (response) {
+        await this.reply(envelope, response);
+      }
+    } catch (error) {
+      logger.error(LogComponent.AGENT, 'Message handler failed', {
+        agentId: this.agentId,
+        type: envelope.message.type,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+}
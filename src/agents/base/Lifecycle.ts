@@ -0,0 +1,89 @@
+import { logger } from '../../logging/base.js';
+import { LogComponent } from '../../logging/types.js';
+
+export type LifecycleState =
+  | 'created'
+  | 'initializing'
+  | 'ready'
+  | 'running'
+  | 'paused'
+  | 'draining'
+  | 'stopped';
+
+export interface LifecycleEvent {
+  agentId: string;
+  from: LifecycleState;
+  to: LifecycleState;
+  timestamp: Date;
+  error?: string;
+}
+
+export type LifecycleListener = (event: LifecycleEvent) => void;
+
+const TRANSITIONS: Record<LifecycleState, LifecycleState[]> = {
+  created: ['initializing', 'stopped'],
+  initializing: ['ready', 'created'],
+  ready: ['running', 'paused', 'draining'],
+  running: ['paused', 'draining'],
+  paused: ['running', 'draining'],
+  draining: ['stopped'],
+  stopped: []
+};
+
+export class Lifecycle {
+  private current: LifecycleState = 'created';
+  private listeners: Set<LifecycleListener> = new Set();
+
+  constructor(private readonly agentId: string) {}
+
+  get state(): LifecycleState {
+    return this.current;
+  }
+
+  is(...states: LifecycleState[]): boolean {
+    return states.includes(this.current);
+  }
+
+  canTransition(to: LifecycleState): boolean {
+    return TRANSITIONS[this.current].includes(to);
+  }
+
+  transition(to: LifecycleState, error?: string): void {
+    if (!this.canTransition(to)) {
+      throw new Error(`Invalid lifecycle transition from ${this.current} to ${to}`);
+    }
+
+    const event: LifecycleEvent = {
+      agentId: this.agentId,
+      from: this.current,
+      to,
+      timestamp: new Date(),
+      ...(error ? { error } : {})
+    };
+    this.current = to;
+
+    logger.info(LogComponent.AGENT, 'Agent lifecycle transition', {
+      agentId: this.agentId,
+      from: event.from,
+      to: event.to
+    });
+
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (listenerError) {
+        logger.error(LogComponent.AGENT, 'Lifecycle listener failed', {
+          agentId: this.agentId,
+          error: listenerError instanceof Error ? listenerError.message : 'Unknown error'
+        });
+      }
+    }
+  }
+
+  watch(listener: LifecycleListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
@@ -27,7 +27,11 @@ interface TypedMemoryNode extends MemoryNode {
   type: MemoryNode['type'];
 }
 
-type MemoryType = MemoryNode['type'];
+export type MemoryType = MemoryNode['type'];
+
+export interface MemorySnapshot {
+  nodes: MemoryNode[];
+}
 
 function isValidMemoryNode(node: unknown): node is MemoryNode {
   return (
@@ -68,6 +72,11 @@ export class Memory {
     await this.vectorStore.initialize();
   }
 
+  // How often optimize() should run; see Scheduler.addMaintenance
+  getSummarizeInterval(): string {
+    return this.config.summarizeInterval;
+  }
+
   async store(node: Omit<MemoryNode, 'id' | 'embedding'>): Promise<string> {
     // 1. Generate ID and embedding
     const id = crypto.randomUUID();
@@ -103,7 +112,7 @@ export class Memory {
   async recall(query: string, options: {
     limit?: number;
     minRelevance?: number;
-    type?: MemoryType;
+    type?: MemoryType | MemoryType[];
   } = {}): Promise<MemoryNode[]> {
     // 1. Generate query embedding
     const queryEmbedding = await this.embeddings.generateEmbedding(query);
@@ -114,7 +123,7 @@ export class Memory {
       limit: options.limit,
       minSimilarity: options.minRelevance,
       filter: options.type ? {
-        type: [options.type]
+        type: Array.isArray(options.type) ? options.type : [options.type]
       } : undefined
     });
 
@@ -131,6 +140,34 @@ export class Memory {
     });
   }
 
+  snapshot(): MemorySnapshot {
+    return { nodes: this.nodes.map(node => ({ ...node })) };
+  }
+
+  // Replaces all nodes with a snapshot and rebuilds the vector index from it
+  async restore(snapshot: MemorySnapshot): Promise<void> {
+    const nodes: MemoryNode[] = [];
+    for (const node of snapshot.nodes.filter(isValidMemoryNode)) {
+      nodes.push({
+        ...node,
+        timestamp: new Date(node.timestamp),
+        embedding: hasEmbedding(node) ? node.embedding : await this.embeddings.generateEmbedding(node.content)
+      });
+    }
+
+    await this.vectorStore.clear();
+    this.nodes = nodes;
+    await this.vectorStore.upsert(nodes.filter(hasEmbedding).map(node => ({
+      id: node.id,
+      vector: node.embedding,
+      metadata: {
+        type: node.type,
+        timestamp: node.timestamp,
+        ...node.metadata
+      }
+    })));
+  }
+
   async optimize(): Promise<void> {
     if (this.nodes.length === 0) return;
 
@@ -0,0 +1,109 @@
+import type { MessageEnvelope } from '../../backplane/types.js';
+import { logger } from '../../logging/base.js';
+import { LogComponent } from '../../logging/types.js';
+import type { AgentMessage, AgentTask, ToolCallRecord, TaskResult } from './Agent.js';
+
+export interface HookContext {
+  agentId: string;
+  task?: AgentTask; // Absent for messages that arrive outside a task
+  threadId?: string;
+  signal?: AbortSignal;
+}
+
+export interface ToolCall {
+  id: string;
+  tool: string;
+  input: unknown;
+}
+
+export type ErrorSource = 'task' | 'tool';
+
+type Hook<T> = (payload: T, context: HookContext) => Promise<T | void> | T | void;
+
+// Transforming hooks return a replacement payload, or nothing to leave it unchanged
+export interface AgentPlugin {
+  name: string;
+  priority?: number; // Lower runs first; equal priorities run in registration order
+  beforePrompt?: Hook<string>;
+  afterResponse?: Hook<TaskResult>;
+  beforeToolCall?: Hook<ToolCall>;
+  afterToolCall?: Hook<ToolCallRecord>;
+  onMessage?: (message: AgentMessage, envelope: MessageEnvelope, context: HookContext) =>
+    Promise<AgentMessage | void> | AgentMessage | void;
+  onError?: (error: Error, source: ErrorSource, context: HookContext) => Promise<void> | void;
+}
+
+type TransformHook = 'beforePrompt' | 'afterResponse' | 'beforeToolCall' | 'afterToolCall';
+type Payload<K extends TransformHook> = NonNullable<AgentPlugin[K]> extends Hook<infer T> ? T : never;
+
+export class PluginRunner {
+  private readonly plugins: AgentPlugin[];
+
+  constructor(plugins: AgentPlugin[] = []) {
+    const names = new Set(plugins.map(plugin => plugin.name));
+    if (names.size !== plugins.length) {
+      throw new Error('Plugin names must be unique');
+    }
+
+    // Array.prototype.sort is stable, so ties keep registration order
+    this.plugins = [...plugins].sort((a, b) => (a.priority ?? 0) - (b.priority ?? 0));
+  }
+
+  getPlugins(): string[] {
+    return this.plugins.map(plugin => plugin.name);
+  }
+
+  // Passes the payload through each plugin in turn; a failing hook fails the operation it guards
+  async run<K extends TransformHook>(hook: K, payload: Payload<K>, context: HookContext): Promise<Payload<K>> {
+    let current = payload;
+    for (const plugin of this.plugins) {
+      const fn = plugin[hook] as Hook<Payload<K>> | undefined;
+      if (!fn) continue;
+
+      try {
+        const next = await fn.call(plugin, current, context);
+        if (next !== undefined) {
+          current = next;
+        }
+      } catch (error) {
+        throw new Error(`Plugin ${plugin.name} failed in ${hook}: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`);
+      }
+    }
+    return current;
+  }
+
+  async message(message: AgentMessage, envelope: MessageEnvelope, context: HookContext): Promise<AgentMessage> {
+    let current = message;
+    for (const plugin of this.plugins) {
+      if (!plugin.onMessage) continue;
+
+      try {
+        current = (await plugin.onMessage(current, envelope, context)) ?? current;
+      } catch (error) {
+        throw new Error(`Plugin ${plugin.name} failed in onMessage: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`);
+      }
+    }
+    return current;
+  }
+
+  // Error observers must never mask the original error, so their own failures are only logged
+  async error(error: Error, source: ErrorSource, context: HookContext): Promise<void> {
+    for (const plugin of this.plugins) {
+      if (!plugin.onError) continue;
+
+      try {
+        await plugin.onError(error, source, context);
+      } catch (hookError) {
+        logger.warn(LogComponent.AGENT, 'Plugin onError hook failed', {
+          plugin: plugin.name,
+          agentId: context.agentId,
+          error: hookError instanceof Error ? hookError.message : 'Unknown error'
+        });
+      }
+    }
+  }
+}
@@ -0,0 +1,134 @@
+import type { QueuedTask, TaskQueue } from '../../backplane/types.js';
+import { logger } from '../../logging/base.js';
+import { LogComponent } from '../../logging/types.js';
+import type { Agent, TaskResult, TaskStatus } from './Agent.js';
+
+// Failures that come from the task itself, so every retry would spend the same budget to fail the same way
+const FINAL_STATUSES: TaskStatus[] = ['rejected', 'budget_exceeded'];
+
+export interface QueueWorkerOptions {
+  pollInterval?: number; // Milliseconds to wait after finding the queue empty
+  visibilityTimeout?: number; // Claims are extended at half this interval while a task runs
+}
+
+export interface QueueWorkerConfig extends QueueWorkerOptions {
+  agent: Pick<Agent, 'getId' | 'getRole' | 'getState' | 'execute'>;
+  queue: TaskQueue;
+}
+
+// Feeds queued tasks that match the agent's role and capabilities into execute()
+export class QueueWorker {
+  private readonly agent: QueueWorkerConfig['agent'];
+  private readonly queue: TaskQueue;
+  private readonly pollInterval: number;
+  private readonly visibilityTimeout: number;
+  private running: boolean = false;
+  private timer?: NodeJS.Timeout;
+  private current?: Promise<boolean>;
+
+  constructor(config: QueueWorkerConfig) {
+    this.agent = config.agent;
+    this.queue = config.queue;
+    this.pollInterval = config.pollInterval ?? 1000;
+    this.visibilityTimeout = config.visibilityTimeout ?? 60000;
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    logger.info(LogComponent.AGENT, 'Queue worker started', { agentId: this.agent.getId() });
+    this.schedule(0);
+  }
+
+  // Stops claiming new tasks and waits for the current one to be acknowledged
+  async stop(): Promise<void> {
+    this.running = false;
+    clearTimeout(this.timer);
+    await this.current?.catch(() => undefined);
+    logger.info(LogComponent.AGENT, 'Queue worker stopped', { agentId: this.agent.getId() });
+  }
+
+  // Claims and runs at most one task; resolves to whether one was found
+  async poll(): Promise<boolean> {
+    const role = this.agent.getRole();
+    if (!role) {
+      throw new Error('Agent not initialized. Call init() first.');
+    }
+
+    // A paused or stopping agent would only fail the task and use up one of its attempts
+    if (!['ready', 'running'].includes(this.agent.getState())) return false;
+
+    const workerId = this.agent.getId();
+    const queued = await this.queue.claim(workerId, {
+      role: role.name,
+      capabilities: Object.keys(role.capabilities),
+      visibilityTimeout: this.visibilityTimeout
+    });
+    if (!queued) return false;
+
+    await this.process(queued, workerId);
+    return true;
+  }
+
+  private async process(queued: QueuedTask, workerId: string): Promise<void> {
+    const heartbeat = setInterval(() => {
+      this.queue.extend(queued.id, workerId, this.visibilityTimeout).catch(error => {
+        logger.warn(LogComponent.AGENT, 'Failed to extend task claim', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+          id: queued.id
+        });
+      });
+    }, this.visibilityTimeout / 2);
+
+    try {
+      const result = await this.agent.execute(queued.task);
+      if (result.success) {
+        await this.queue.ack(queued.id, workerId, result);
+      } else {
+        await this.queue.nack(
+          queued.id,
+          workerId,
+          typeof result.result === 'string' ? result.result : JSON.stringify(result.result),
+          { retry: isRetryable(result) }
+        );
+      }
+    } catch (error) {
+      logger.error(LogComponent.AGENT, 'Queued task failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        id: queued.id,
+        agentId: workerId
+      });
+      await this.queue.nack(queued.id, workerId, error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  private schedule(delay: number): void {
+    this.timer = setTimeout(async () => {
+      if (!this.running) return;
+
+      let found = false;
+      try {
+        this.current = this.poll();
+        found = await this.current;
+      } catch (error) {
+        logger.error(LogComponent.AGENT, 'Queue poll failed', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+          agentId: this.agent.getId()
+        });
+      } finally {
+        this.current = undefined;
+      }
+
+      if (this.running) {
+        this.schedule(found ? 0 : this.pollInterval);
+      }
+    }, delay);
+  }
+}
+
+function isRetryable(result: TaskResult): boolean {
+  if (result.status && FINAL_STATUSES.includes(result.status)) return false;
+  return !result.validationErrors?.length;
+}
@@ -0,0 +1,66 @@
+import type { AgentMessage } from '../agents/base/Agent.js';
+import { HumanBackplane, sendToHuman } from '../human/backplane.js';
+import { logger } from '../logging/base.js';
+import { LogComponent } from '../logging/types.js';
+import { ApprovalHandler } from './base.js';
+import { ApprovalDecisionType, ApprovalHandlerOptions, ApprovalRequest } from './types.js';
+
+export const APPROVAL_REQUEST = 'approval_request';
+export const APPROVAL_RESPONSE = 'approval_response';
+
+export interface BackplaneApprovalOptions extends ApprovalHandlerOptions {
+  backplane: HumanBackplane;
+  approver?: string; // Agent or operator id; broadcasts when omitted
+}
+
+export interface ApprovalResponseContent {
+  requestId: string;
+  decision: ApprovalDecisionType;
+  reason: string;
+  params?: unknown;
+  approver?: string;
+}
+
+export class BackplaneApprovalHandler extends ApprovalHandler {
+  private readonly backplane: HumanBackplane;
+  private readonly approver?: string;
+  readonly responseType = APPROVAL_RESPONSE;
+
+  constructor(options: BackplaneApprovalOptions) {
+    super(options);
+    this.backplane = options.backplane;
+    this.approver = options.approver;
+  }
+
+  protected async dispatch(request: ApprovalRequest): Promise<void> {
+    await sendToHuman(this.backplane, this.approver, {
+      type: APPROVAL_REQUEST,
+      content: request,
+      metadata: { timeout: this.timeout }
+    });
+  }
+
+  // Feed approval_response messages received from the backplane into the handler
+  handleMessage(message: AgentMessage): boolean {
+    if (message.type !== APPROVAL_RESPONSE) return false;
+
+    const response = message.content as Partial<ApprovalResponseContent> | undefined;
+    if (!response?.requestId || !response.decision) {
+      logger.warn(LogComponent.TOOL, 'Malformed approval response', { content: response });
+      return false;
+    }
+
+    const reason = response.reason ?? '';
+    switch (response.decision) {
+      case 'approve':
+        return this.approve(response.requestId, reason || 'Approved', response.approver);
+      case 'deny':
+        return this.deny(response.requestId, reason || 'Denied', response.approver);
+      case 'modify':
+        return this.modify(response.requestId, response.params, reason || 'Modified', response.approver);
+      default:
+        logger.warn(LogComponent.TOOL, 'Unknown approval decision', { decision: response.decision });
+        return false;
+    }
+  }
+}
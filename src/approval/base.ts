@@ -0,0 +1,56 @@
+import { HumanRequestHandler } from '../human/base.js';
+import { LogComponent } from '../logging/types.js';
+import {
+  ApprovalDecision,
+  ApprovalHandlerOptions,
+  ApprovalRecord,
+  ApprovalRequest
+} from './types.js';
+
+export abstract class ApprovalHandler extends HumanRequestHandler<ApprovalRequest, ApprovalDecision, ApprovalRecord> {
+  protected readonly timeoutDecision: 'approve' | 'deny';
+
+  constructor(options: ApprovalHandlerOptions = {}) {
+    super(options.timeout ?? 300000, 'Approval', LogComponent.TOOL); // 5 minutes
+    this.timeoutDecision = options.timeoutDecision ?? 'deny';
+  }
+
+  async requestApproval(
+    request: Omit<ApprovalRequest, 'id' | 'requestedAt'>,
+    signal?: AbortSignal // Denies the request as cancelled when it fires
+  ): Promise<ApprovalRecord> {
+    return this.open(request, signal);
+  }
+
+  approve(requestId: string, reason: string = 'Approved', approver?: string): boolean {
+    return this.settle(requestId, { decision: 'approve', reason, approver });
+  }
+
+  deny(requestId: string, reason: string, approver?: string): boolean {
+    return this.settle(requestId, { decision: 'deny', reason, approver });
+  }
+
+  modify(requestId: string, params: unknown, reason: string, approver?: string): boolean {
+    return this.settle(requestId, { decision: 'modify', params, reason, approver });
+  }
+
+  protected timedOut(): ApprovalDecision {
+    return { decision: this.timeoutDecision, reason: `No decision within ${this.timeout}ms`, timedOut: true };
+  }
+
+  protected cancelled(): ApprovalDecision {
+    return { decision: 'deny', reason: 'Task was cancelled' };
+  }
+
+  protected undelivered(error: string): ApprovalDecision {
+    return { decision: 'deny', reason: `Failed to dispatch approval request: ${error}` };
+  }
+
+  protected toRecord(request: ApprovalRequest, decision: ApprovalDecision): ApprovalRecord {
+    return { ...decision, requestId: request.id, requestedAt: request.requestedAt, decidedAt: new Date() };
+  }
+
+  protected describe(request: ApprovalRequest, record: ApprovalRecord): Record<string, unknown> {
+    return { tool: request.tool, decision: record.decision, reason: record.reason, timedOut: record.timedOut ?? false };
+  }
+}
@@ -0,0 +1,50 @@
+import { ConsoleConversation, ConsoleOptions, ConsolePrompter } from '../human/console.js';
+import { ApprovalHandler } from './base.js';
+import { ApprovalHandlerOptions, ApprovalRequest } from './types.js';
+
+export interface ConsoleApprovalOptions extends ApprovalHandlerOptions, ConsoleOptions {}
+
+export class ConsoleApprovalHandler extends ApprovalHandler {
+  private readonly prompter: ConsolePrompter;
+
+  constructor(options: ConsoleApprovalOptions = {}) {
+    super(options);
+    this.prompter = new ConsolePrompter(options);
+  }
+
+  protected async dispatch(request: ApprovalRequest, settled: AbortSignal): Promise<void> {
+    this.prompter.enqueue(
+      settled,
+      conversation => this.prompt(request, conversation)
+    );
+  }
+
+  private async prompt(request: ApprovalRequest, { write, ask }: ConsoleConversation): Promise<void> {
+    write(
+      `\nApproval required for tool "${request.tool}" (requested by ${request.requestedBy})\n` +
+      `${request.description}\n` +
+      `Parameters: ${JSON.stringify(request.params, null, 2)}\n`
+    );
+
+    const answer = (await ask('[a]pprove, [d]eny or [m]odify? ')).trim().toLowerCase();
+
+    if (answer === 'a' || answer === 'approve') {
+      const reason = await ask('Reason (optional): ');
+      this.approve(request.id, reason.trim() || 'Approved at console', 'console');
+    } else if (answer === 'm' || answer === 'modify') {
+      const raw = await ask('New parameters as JSON: ');
+      let params: unknown;
+      try {
+        params = JSON.parse(raw);
+      } catch {
+        this.deny(request.id, 'Modified parameters were not valid JSON', 'console');
+        return;
+      }
+      const reason = await ask('Reason: ');
+      this.modify(request.id, params, reason.trim() || 'Modified at console', 'console');
+    } else {
+      const reason = await ask('Reason: ');
+      this.deny(request.id, reason.trim() || 'Denied at console', 'console');
+    }
+  }
+}
@@ -0,0 +1,27 @@
+import { HumanRequest, HumanRequestOptions } from '../human/types.js';
+
+export type ApprovalDecisionType = 'approve' | 'deny' | 'modify';
+
+export interface ApprovalRequest extends HumanRequest {
+  tool: string;
+  description: string;
+  params: unknown;
+}
+
+export interface ApprovalDecision {
+  decision: ApprovalDecisionType;
+  reason: string;
+  params?: unknown; // Replacement parameters when decision is 'modify'
+  approver?: string;
+  timedOut?: boolean;
+}
+
+export interface ApprovalRecord extends ApprovalDecision {
+  requestId: string;
+  requestedAt: Date;
+  decidedAt: Date;
+}
+
+export interface ApprovalHandlerOptions extends HumanRequestOptions {
+  timeoutDecision?: 'approve' | 'deny';
+}
@@ -1,4 +1,4 @@
-import { DiscoveryService } from './types.js';
+import { DiscoveryService, MessageEnvelope, TaskQueue } from './types.js';
 import { logger } from '../logging/base.js';
 import { LogComponent } from '../logging/types.js';
 
@@ -38,6 +38,12 @@ export abstract class Backplane {
     });
   }
 
+  protected logSubscription(agentId: string): void {
+    logger.debug(LogComponent.BACKPLANE, 'Subscribing to agent messages', {
+      agentId
+    });
+  }
+
   protected logCollaboratorSearch(query: { role?: string; capabilities?: string[] }): void {
     logger.debug(LogComponent.BACKPLANE, 'Searching for collaborators', {
       role: query.role,
@@ -49,9 +55,12 @@ export abstract class Backplane {
   abstract disconnect(): Promise<void>;
   abstract cleanup(): Promise<void>;
   abstract getDiscoveryService(): DiscoveryService;
+  abstract getTaskQueue(): TaskQueue;
   abstract sendMessage(to: string, message: any): Promise<void>;
   abstract broadcastMessage(message: any): Promise<void>;
   abstract shareContext(with_id: string, context: any): Promise<void>;
+  abstract subscribe(agentId: string, handler: (envelope: MessageEnvelope) => Promise<void>): Promise<void>;
+  abstract unsubscribe(agentId: string): Promise<void>;
   abstract findCollaborators(query: { role?: string; capabilities?: string[] }): Promise<string[]>;
 }
 
@@ -0,0 +1,51 @@
+import type { AgentMessage } from '../agents/base/Agent.js';
+import { MessageEnvelope } from './types.js';
+
+export function createEnvelope(
+  source: string,
+  target: string,
+  message: AgentMessage,
+  options: {
+    priority?: number;
+    metadata?: MessageEnvelope['metadata'];
+  } = {}
+): MessageEnvelope {
+  return {
+    id: crypto.randomUUID(),
+    timestamp: new Date(),
+    message,
+    routing: {
+      source,
+      target,
+      priority: options.priority ?? 0
+    },
+    metadata: options.metadata ?? {}
+  };
+}
+
+export function isEnvelope(value: unknown): value is MessageEnvelope {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    'id' in value &&
+    'message' in value &&
+    'routing' in value
+  );
+}
+
+// Messages arrive as parsed JSON, so dates are strings and bare messages lack routing
+export function toEnvelope(raw: unknown, target: string): MessageEnvelope | null {
+  if (isEnvelope(raw)) {
+    return {
+      ...raw,
+      timestamp: new Date(raw.timestamp),
+      metadata: raw.metadata ?? {}
+    };
+  }
+
+  if (typeof raw === 'object' && raw !== null && typeof (raw as AgentMessage).type === 'string') {
+    return createEnvelope('unknown', target, raw as AgentMessage);
+  }
+
+  return null;
+}
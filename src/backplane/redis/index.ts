@@ -1,9 +1,11 @@
 import { RedisClientType, createClient } from 'redis';
 import { Backplane, BackplaneConfig, BackplaneFactory } from '../base.js';
-import { DiscoveryService, AgentInfo } from '../types.js';
+import { DiscoveryService, AgentInfo, MessageEnvelope, TaskQueue } from '../types.js';
+import { toEnvelope } from '../envelope.js';
 import { RedisDiscoveryService } from '../redis/discovery-service.js';
 import { RedisMessageBroker } from '../redis/message-broker.js';
 import { RedisContextManager } from '../redis/context-manager.js';
+import { RedisTaskQueue } from '../redis/task-queue.js';
 import { logger } from '../../logging/base.js';
 import { LogComponent } from '../../logging/types.js';
 
@@ -12,6 +14,7 @@ export class RedisBackplane extends Backplane {
   protected readonly discoveryService: RedisDiscoveryService;
   protected readonly messageBroker: RedisMessageBroker;
   protected readonly contextManager: RedisContextManager;
+  protected readonly taskQueue: RedisTaskQueue;
   private isConnected: boolean = false;
 
   constructor(config: BackplaneConfig) {
@@ -37,6 +40,8 @@ export class RedisBackplane extends Backplane {
       config.prefix,
       config.pubsub.contextChannel
     );
+
+    this.taskQueue = new RedisTaskQueue(this.client, config.prefix);
   }
 
   async connect(config: { host: string; port: number }): Promise<void> {
@@ -77,6 +82,7 @@ export class RedisBackplane extends Backplane {
       this.logCleanup();
       try {
         await this.discoveryService.cleanup();
+        await this.messageBroker.cleanup();
         await this.disconnect();
         logger.info(LogComponent.BACKPLANE, 'Redis backplane cleanup completed');
       } catch (error) {
@@ -92,6 +98,10 @@ export class RedisBackplane extends Backplane {
     return this.discoveryService;
   }
 
+  getTaskQueue(): TaskQueue {
+    return this.taskQueue;
+  }
+
   async sendMessage(to: string, message: any): Promise<void> {
     this.logMessageSent(to, message.type);
     try {
@@ -147,6 +157,38 @@ export class RedisBackplane extends Backplane {
     }
   }
 
+  async subscribe(agentId: string, handler: (envelope: MessageEnvelope) => Promise<void>): Promise<void> {
+    this.logSubscription(agentId);
+    try {
+      await this.messageBroker.subscribe(agentId, async raw => {
+        const envelope = toEnvelope(raw, agentId);
+        if (!envelope) {
+          logger.warn(LogComponent.BACKPLANE, 'Dropping malformed message', { agentId });
+          return;
+        }
+        await handler(envelope);
+      });
+    } catch (error) {
+      logger.error(LogComponent.BACKPLANE, 'Failed to subscribe to messages', {
+        agentId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  async unsubscribe(agentId: string): Promise<void> {
+    try {
+      await this.messageBroker.unsubscribe(agentId);
+    } catch (error) {
+      logger.error(LogComponent.BACKPLANE, 'Failed to unsubscribe from messages', {
+        agentId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
   async findCollaborators(query: { role?: string; capabilities?: string[] }): Promise<string[]> {
     this.logCollaboratorSearch(query);
     try {
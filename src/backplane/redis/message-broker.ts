@@ -2,10 +2,14 @@ import { RedisClientType } from 'redis';
 import { logger } from '../../logging/base.js';
 import { LogComponent } from '../../logging/types.js';
 
+type MessageListener = (message: string) => Promise<void>;
+
 export class RedisMessageBroker {
   private readonly client: RedisClientType;
   private readonly prefix: string;
   private readonly channel: string;
+  private subscriber?: RedisClientType;
+  private listeners: Map<string, MessageListener> = new Map();
 
   constructor(client: RedisClientType, prefix: string, channel: string) {
     this.client = client;
@@ -14,18 +18,67 @@ export class RedisMessageBroker {
   }
 
   async sendMessage(to: string, message: any): Promise<void> {
-    const key = `${this.prefix}:messages:${to}`;
-    await this.client.publish(this.channel, JSON.stringify(message));
+    await this.client.publish(this.getAgentChannel(to), JSON.stringify(message));
     logger.info(LogComponent.BACKPLANE, 'Message sent successfully', {
       recipient: to,
-      messageType: message.type
+      messageType: message.type ?? message.message?.type
     });
   }
 
   async broadcastMessage(message: any): Promise<void> {
     await this.client.publish(this.channel, JSON.stringify(message));
     logger.info(LogComponent.BACKPLANE, 'Message broadcast successfully', {
-      messageType: message.type
+      messageType: message.type ?? message.message?.type
     });
   }
+
+  async subscribe(target: string, handler: (message: unknown) => Promise<void>): Promise<void> {
+    if (!this.subscriber) {
+      this.subscriber = this.client.duplicate();
+      await this.subscriber.connect();
+    }
+
+    await this.unsubscribe(target);
+
+    const listener: MessageListener = async (raw) => {
+      try {
+        await handler(JSON.parse(raw));
+      } catch (error) {
+        logger.error(LogComponent.BACKPLANE, 'Error handling incoming message', {
+          target,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    };
+
+    // Direct messages and broadcasts share one listener
+    await this.subscriber.subscribe(this.getAgentChannel(target), listener);
+    await this.subscriber.subscribe(this.channel, listener);
+    this.listeners.set(target, listener);
+
+    logger.info(LogComponent.BACKPLANE, 'Subscribed to messages', { target });
+  }
+
+  async unsubscribe(target: string): Promise<void> {
+    const listener = this.listeners.get(target);
+    if (!listener || !this.subscriber) return;
+
+    await this.subscriber.unsubscribe(this.getAgentChannel(target), listener);
+    await this.subscriber.unsubscribe(this.channel, listener);
+    this.listeners.delete(target);
+
+    logger.info(LogComponent.BACKPLANE, 'Unsubscribed from messages', { target });
+  }
+
+  async cleanup(): Promise<void> {
+    this.listeners.clear();
+    if (this.subscriber) {
+      await this.subscriber.quit();
+      this.subscriber = undefined;
+    }
+  }
+
+  private getAgentChannel(agentId: string): string {
+    return `${this.channel}:${agentId}`;
+  }
 }
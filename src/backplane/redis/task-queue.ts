@@ -0,0 +1,246 @@
+import { RedisClientType } from 'redis';
+import type { AgentTask } from '../../agents/base/Agent.js';
+import { logger } from '../../logging/base.js';
+import { LogComponent } from '../../logging/types.js';
+import {
+  ClaimOptions,
+  EnqueueOptions,
+  NackOptions,
+  QueuedTask,
+  TaskQueue,
+  TaskRequirements
+} from '../types.js';
+
+// Claims are made atomic by ZREM: only the worker whose removal succeeds owns the task
+export class RedisTaskQueue implements TaskQueue {
+  private readonly taskPrefix: string;
+  private readonly pendingKey: string;
+  private readonly inflightKey: string;
+  private readonly deadKey: string;
+  private readonly defaultVisibilityTimeout: number = 60000; // 1 minute
+  private readonly defaultMaxAttempts: number = 3;
+  private readonly completedTTL: number = 86400; // 24 hours
+  private readonly scanLimit: number = 100; // Pending tasks inspected per claim
+
+  constructor(
+    private readonly client: RedisClientType,
+    prefix: string
+  ) {
+    this.taskPrefix = `${prefix}queue:task:`;
+    this.pendingKey = `${prefix}queue:pending`;
+    this.inflightKey = `${prefix}queue:inflight`;
+    this.deadKey = `${prefix}queue:dead`;
+  }
+
+  async enqueue(task: AgentTask, options: EnqueueOptions = {}): Promise<string> {
+    const now = new Date();
+    const queued: QueuedTask = {
+      id: crypto.randomUUID(),
+      task,
+      requirements: { role: options.role, capabilities: options.capabilities },
+      status: 'pending',
+      attempts: 0,
+      maxAttempts: options.maxAttempts ?? this.defaultMaxAttempts,
+      enqueuedAt: now,
+      updatedAt: now
+    };
+
+    await this.client.multi()
+      .set(this.taskKey(queued.id), JSON.stringify(queued))
+      .zAdd(this.pendingKey, { score: now.getTime(), value: queued.id })
+      .exec();
+
+    logger.info(LogComponent.BACKPLANE, 'Task enqueued', {
+      id: queued.id,
+      task: task.task,
+      requirements: queued.requirements
+    });
+    return queued.id;
+  }
+
+  async claim(workerId: string, options: ClaimOptions): Promise<QueuedTask | null> {
+    await this.requeueExpired();
+
+    const ids = await this.client.zRange(this.pendingKey, 0, this.scanLimit - 1);
+    for (const id of ids) {
+      const queued = await this.read(id);
+      if (!queued) {
+        await this.client.zRem(this.pendingKey, id);
+        continue;
+      }
+      if (!this.matches(queued.requirements, options)) continue;
+
+      // Another worker got there first
+      if (await this.client.zRem(this.pendingKey, id) === 0) continue;
+
+      const now = Date.now();
+      const visibleAt = now + (options.visibilityTimeout ?? this.defaultVisibilityTimeout);
+      const claimed: QueuedTask = {
+        ...queued,
+        status: 'claimed',
+        attempts: queued.attempts + 1,
+        claimedBy: workerId,
+        visibleAt: new Date(visibleAt),
+        updatedAt: new Date(now)
+      };
+
+      await this.client.multi()
+        .set(this.taskKey(id), JSON.stringify(claimed))
+        .zAdd(this.inflightKey, { score: visibleAt, value: id })
+        .exec();
+
+      logger.info(LogComponent.BACKPLANE, 'Task claimed', {
+        id,
+        workerId,
+        attempt: claimed.attempts
+      });
+      return claimed;
+    }
+
+    return null;
+  }
+
+  async ack(id: string, workerId: string, result?: unknown): Promise<boolean> {
+    const queued = await this.releaseClaim(id, workerId);
+    if (!queued) return false;
+
+    const completed: QueuedTask = {
+      ...queued,
+      status: 'completed',
+      result,
+      visibleAt: undefined,
+      updatedAt: new Date()
+    };
+    await this.client.set(this.taskKey(id), JSON.stringify(completed), { EX: this.completedTTL });
+
+    logger.info(LogComponent.BACKPLANE, 'Task acknowledged', { id, workerId });
+    return true;
+  }
+
+  async nack(id: string, workerId: string, error: string, options: NackOptions = {}): Promise<boolean> {
+    const queued = await this.releaseClaim(id, workerId);
+    if (!queued) return false;
+
+    await this.retryOrBury(queued, error, options.retry ?? true);
+    return true;
+  }
+
+  // Keeps a long-running claim from expiring
+  async extend(id: string, workerId: string, visibilityTimeout: number): Promise<boolean> {
+    const queued = await this.read(id);
+    if (!queued || queued.status !== 'claimed' || queued.claimedBy !== workerId) return false;
+
+    const visibleAt = Date.now() + visibilityTimeout;
+    const updated = await this.client.zAdd(
+      this.inflightKey,
+      { score: visibleAt, value: id },
+      { XX: true, CH: true }
+    );
+    if (updated === 0) return false;
+
+    await this.client.set(this.taskKey(id), JSON.stringify({ ...queued, visibleAt: new Date(visibleAt) }));
+    return true;
+  }
+
+  async getStatus(id: string): Promise<QueuedTask | null> {
+    return this.read(id);
+  }
+
+  async getDeadLetters(): Promise<QueuedTask[]> {
+    const ids = await this.client.lRange(this.deadKey, 0, -1);
+    const tasks = await Promise.all(ids.map(id => this.read(id)));
+    return tasks.filter((task): task is QueuedTask => task !== null);
+  }
+
+  // Hands out again every claim whose visibility timeout has passed
+  async requeueExpired(): Promise<number> {
+    const expired = await this.client.zRangeByScore(this.inflightKey, 0, Date.now());
+    let requeued = 0;
+
+    for (const id of expired) {
+      if (await this.client.zRem(this.inflightKey, id) === 0) continue;
+
+      const queued = await this.read(id);
+      if (!queued) continue;
+
+      logger.warn(LogComponent.BACKPLANE, 'Task claim expired', {
+        id,
+        workerId: queued.claimedBy,
+        attempt: queued.attempts
+      });
+      await this.retryOrBury(queued, `Visibility timeout expired while claimed by ${queued.claimedBy}`);
+      requeued++;
+    }
+
+    return requeued;
+  }
+
+  private async releaseClaim(id: string, workerId: string): Promise<QueuedTask | null> {
+    const queued = await this.read(id);
+    if (!queued || queued.status !== 'claimed' || queued.claimedBy !== workerId) {
+      logger.warn(LogComponent.BACKPLANE, 'Ignoring result for a task this worker no longer holds', {
+        id,
+        workerId,
+        claimedBy: queued?.claimedBy,
+        status: queued?.status
+      });
+      return null;
+    }
+
+    // The claim expired and was handed out again between the read and now
+    if (await this.client.zRem(this.inflightKey, id) === 0) return null;
+    return queued;
+  }
+
+  private async retryOrBury(queued: QueuedTask, error: string, retry: boolean = true): Promise<void> {
+    const now = new Date();
+    const base = { ...queued, claimedBy: undefined, visibleAt: undefined, lastError: error, updatedAt: now };
+
+    if (!retry || queued.attempts >= queued.maxAttempts) {
+      await this.client.multi()
+        .set(this.taskKey(queued.id), JSON.stringify({ ...base, status: 'dead' }))
+        .lPush(this.deadKey, queued.id)
+        .exec();
+
+      logger.error(LogComponent.BACKPLANE, 'Task moved to dead-letter list', {
+        id: queued.id,
+        attempts: queued.attempts,
+        error
+      });
+      return;
+    }
+
+    await this.client.multi()
+      .set(this.taskKey(queued.id), JSON.stringify({ ...base, status: 'pending' }))
+      .zAdd(this.pendingKey, { score: now.getTime(), value: queued.id })
+      .exec();
+
+    logger.info(LogComponent.BACKPLANE, 'Task returned to queue', {
+      id: queued.id,
+      attempts: queued.attempts,
+      error
+    });
+  }
+
+  private matches(requirements: TaskRequirements, options: ClaimOptions): boolean {
+    if (requirements.role && requirements.role !== options.role) return false;
+    return (requirements.capabilities ?? []).every(cap => options.capabilities.includes(cap));
+  }
+
+  private async read(id: string): Promise<QueuedTask | null> {
+    const data = await this.client.get(this.taskKey(id));
+    if (!data) return null;
+
+    const queued = JSON.parse(data) as QueuedTask;
+    return {
+      ...queued,
+      enqueuedAt: new Date(queued.enqueuedAt),
+      updatedAt: new Date(queued.updatedAt),
+      ...(queued.visibleAt ? { visibleAt: new Date(queued.visibleAt) } : {})
+    };
+  }
+
+  private taskKey(id: string): string {
+    return `${this.taskPrefix}${id}`;
+  }
+}
@@ -1,4 +1,4 @@
-import { AgentMessage } from '../agents/base/Agent.js';
+import { AgentMessage, AgentTask } from '../agents/base/Agent.js';
 import { ContextNode } from '../agents/base/Context.js';
 
 export interface BackplaneConfig {
@@ -74,6 +74,53 @@ export interface DiscoveryService {
   watchAgents(handler: (event: { type: 'add' | 'remove' | 'update'; agent: AgentInfo }) => void): Promise<void>;
 }
 
+export type QueuedTaskStatus = 'pending' | 'claimed' | 'completed' | 'dead';
+
+export interface TaskRequirements {
+  role?: string;
+  capabilities?: string[]; // The claiming agent must have all of these
+}
+
+export interface QueuedTask {
+  id: string;
+  task: AgentTask;
+  requirements: TaskRequirements;
+  status: QueuedTaskStatus;
+  attempts: number; // Claims so far, including the current one
+  maxAttempts: number;
+  enqueuedAt: Date;
+  updatedAt: Date;
+  claimedBy?: string;
+  visibleAt?: Date; // When an unacknowledged claim expires and the task is handed out again
+  result?: unknown;
+  lastError?: string;
+}
+
+export interface EnqueueOptions extends TaskRequirements {
+  maxAttempts?: number;
+}
+
+export interface NackOptions {
+  retry?: boolean; // False dead-letters the task at once, for failures another attempt would only repeat
+}
+
+export interface ClaimOptions {
+  role: string;
+  capabilities: string[];
+  visibilityTimeout?: number; // Milliseconds before an unacknowledged claim is released
+}
+
+export interface TaskQueue {
+  enqueue(task: AgentTask, options?: EnqueueOptions): Promise<string>;
+  claim(workerId: string, options: ClaimOptions): Promise<QueuedTask | null>;
+  ack(id: string, workerId: string, result?: unknown): Promise<boolean>;
+  nack(id: string, workerId: string, error: string, options?: NackOptions): Promise<boolean>;
+  extend(id: string, workerId: string, visibilityTimeout: number): Promise<boolean>;
+  getStatus(id: string): Promise<QueuedTask | null>;
+  getDeadLetters(): Promise<QueuedTask[]>;
+  requeueExpired(): Promise<number>;
+}
+
 export interface Backplane {
   messageBroker: MessageBroker;
   contextManager: ContextManager;
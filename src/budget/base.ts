@@ -0,0 +1,125 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { logger } from '../logging/base.js';
+import { LogComponent } from '../logging/types.js';
+import { BudgetLimit, BudgetUsage, ModelPricing, TaskBudget } from './types.js';
+
+// Published list prices; unknown models are priced like Sonnet
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  'claude-3-5-sonnet-20241022': { input: 3, output: 15 },
+  'claude-3-5-sonnet-20240620': { input: 3, output: 15 },
+  'claude-3-5-haiku-20241022': { input: 0.8, output: 4 },
+  'claude-3-opus-20240229': { input: 15, output: 75 },
+  'claude-3-sonnet-20240229': { input: 3, output: 15 },
+  'claude-3-haiku-20240307': { input: 0.25, output: 1.25 }
+};
+
+const DEFAULT_PRICING: ModelPricing = { input: 3, output: 15 };
+
+export function estimateCost(
+  model: string,
+  inputTokens: number,
+  outputTokens: number,
+  pricing: Record<string, ModelPricing> = MODEL_PRICING
+): number {
+  const rates = pricing[model] ?? DEFAULT_PRICING;
+  return (inputTokens * rates.input + outputTokens * rates.output) / 1_000_000;
+}
+
+export class BudgetExceededError extends Error {
+  constructor(readonly limit: BudgetLimit, readonly usage: BudgetUsage) {
+    super(`Task budget exceeded: ${limit}`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+const activeBudget = new AsyncLocalStorage<BudgetTracker>();
+
+// The budget of the task whose async context we are running in, if any
+export function currentBudget(): BudgetTracker | undefined {
+  return activeBudget.getStore();
+}
+
+export class BudgetTracker {
+  private readonly budget: TaskBudget;
+  private readonly pricing: Record<string, ModelPricing>;
+  private readonly controller = new AbortController();
+  private readonly startTime = Date.now();
+  private timer?: NodeJS.Timeout;
+  private usage: Omit<BudgetUsage, 'duration'> = {
+    calls: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    totalTokens: 0,
+    cost: 0
+  };
+
+  constructor(budget: TaskBudget, pricing: Record<string, ModelPricing> = MODEL_PRICING) {
+    this.budget = budget;
+    this.pricing = pricing;
+  }
+
+  // Aborts once any limit is hit
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  get exceeded(): BudgetLimit | undefined {
+    return this.usage.exceeded;
+  }
+
+  // Runs fn with this budget as the current one; Claude calls made inside count against it
+  async run<T>(fn: () => Promise<T>): Promise<T> {
+    if (this.budget.maxDuration !== undefined) {
+      const remaining = this.budget.maxDuration - (Date.now() - this.startTime);
+      this.timer = setTimeout(() => this.exceed('duration'), Math.max(remaining, 0));
+    }
+
+    try {
+      return await activeBudget.run(this, fn);
+    } finally {
+      clearTimeout(this.timer);
+    }
+  }
+
+  record(model: string, inputTokens: number, outputTokens: number): void {
+    this.usage.calls++;
+    this.usage.inputTokens += inputTokens;
+    this.usage.outputTokens += outputTokens;
+    this.usage.totalTokens += inputTokens + outputTokens;
+    this.usage.cost += estimateCost(model, inputTokens, outputTokens, this.pricing);
+
+    if (this.budget.maxTokens !== undefined && this.usage.totalTokens >= this.budget.maxTokens) {
+      this.exceed('tokens');
+    } else if (this.budget.maxCost !== undefined && this.usage.cost >= this.budget.maxCost) {
+      this.exceed('cost');
+    }
+  }
+
+  // Called before each Claude request so no new spending starts once a limit is hit
+  assertWithinBudget(): void {
+    if (this.usage.exceeded) {
+      throw new BudgetExceededError(this.usage.exceeded, this.getUsage());
+    }
+  }
+
+  getUsage(): BudgetUsage {
+    return { ...this.usage, duration: Date.now() - this.startTime };
+  }
+
+  private exceed(limit: BudgetLimit): void {
+    if (this.usage.exceeded) return;
+
+    this.usage.exceeded = limit;
+    logger.warn(LogComponent.AGENT, 'Task budget exceeded', {
+      limit,
+      budget: this.budget,
+      usage: this.getUsage()
+    });
+    this.controller.abort(new BudgetExceededError(limit, this.getUsage()));
+  }
+}
+
+// Runs fn outside any task budget, e.g. for bookkeeping after a budget has run out
+export function withoutBudget<T>(fn: () => T): T {
+  return activeBudget.exit(fn);
+}
@@ -0,0 +1,23 @@
+export interface TaskBudget {
+  maxTokens?: number; // Input plus output tokens across every Claude call
+  maxCost?: number; // Estimated US dollars
+  maxDuration?: number; // Wall-clock milliseconds
+}
+
+export type BudgetLimit = 'tokens' | 'cost' | 'duration';
+
+export interface BudgetUsage {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  cost: number;
+  duration: number;
+  exceeded?: BudgetLimit;
+}
+
+// US dollars per million tokens
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
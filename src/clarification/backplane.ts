@@ -0,0 +1,53 @@
+import type { AgentMessage } from '../agents/base/Agent.js';
+import { HumanBackplane, sendToHuman } from '../human/backplane.js';
+import { logger } from '../logging/base.js';
+import { LogComponent } from '../logging/types.js';
+import { ClarificationHandler } from './base.js';
+import { ClarificationHandlerOptions, ClarificationRequest } from './types.js';
+
+export const CLARIFICATION_REQUEST = 'clarification_request';
+export const CLARIFICATION_RESPONSE = 'clarification_response';
+
+export interface BackplaneClarificationOptions extends ClarificationHandlerOptions {
+  backplane: HumanBackplane;
+  recipient?: string; // Operator or agent id; broadcasts when omitted
+}
+
+export interface ClarificationResponseContent {
+  requestId: string;
+  answer: string;
+  answeredBy?: string;
+}
+
+export class BackplaneClarificationHandler extends ClarificationHandler {
+  private readonly backplane: HumanBackplane;
+  private readonly recipient?: string;
+  readonly responseType = CLARIFICATION_RESPONSE;
+
+  constructor(options: BackplaneClarificationOptions) {
+    super(options);
+    this.backplane = options.backplane;
+    this.recipient = options.recipient;
+  }
+
+  protected async dispatch(request: ClarificationRequest): Promise<void> {
+    await sendToHuman(this.backplane, this.recipient, {
+      type: CLARIFICATION_REQUEST,
+      content: request,
+      metadata: { timeout: this.timeout }
+    });
+  }
+
+  // Feed clarification_response messages received from the backplane into the handler
+  handleMessage(message: AgentMessage): boolean {
+    if (message.type !== CLARIFICATION_RESPONSE) return false;
+
+    const response = message.content as Partial<ClarificationResponseContent> | undefined;
+    if (!response?.requestId || typeof response.answer !== 'string') {
+      logger.warn(LogComponent.AGENT, 'Malformed clarification response', { content: response });
+      return false;
+    }
+
+    return this.answer(response.requestId, response.answer, response.answeredBy);
+  }
+}
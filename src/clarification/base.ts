@@ -0,0 +1,69 @@
+import type { ToolDefinition } from '../claude/client.js';
+import { HumanRequestHandler } from '../human/base.js';
+import { LogComponent } from '../logging/types.js';
+import {
+  ClarificationAnswer,
+  ClarificationHandlerOptions,
+  ClarificationRecord,
+  ClarificationRequest
+} from './types.js';
+
+// Offered to the model alongside the agent's tools whenever a clarification handler is configured
+export const CLARIFICATION_TOOL: ToolDefinition = {
+  name: 'ask_clarification',
+  description: 'Ask a human for information you need to finish the task instead of guessing. ' +
+    'The task pauses until they answer.',
+  input_schema: {
+    type: 'object',
+    properties: {
+      question: { type: 'string', description: 'The question to ask' },
+      context: { type: 'string', description: 'Why you need the answer' },
+      options: { type: 'array', items: { type: 'string' }, description: 'Suggested answers, if any' }
+    },
+    required: ['question']
+  }
+};
+
+export abstract class ClarificationHandler
+  extends HumanRequestHandler<ClarificationRequest, ClarificationAnswer, ClarificationRecord> {
+  constructor(options: ClarificationHandlerOptions = {}) {
+    super(options.timeout ?? 600000, 'Clarification', LogComponent.AGENT); // 10 minutes
+  }
+
+  async ask(
+    request: Omit<ClarificationRequest, 'id' | 'requestedAt'>,
+    signal?: AbortSignal
+  ): Promise<ClarificationRecord> {
+    return this.open(request, signal);
+  }
+
+  answer(requestId: string, answer: string, answeredBy?: string): boolean {
+    return this.settle(requestId, { answer, answeredBy });
+  }
+
+  protected timedOut(): ClarificationAnswer {
+    return { reason: `No answer within ${this.timeout}ms`, timedOut: true };
+  }
+
+  protected cancelled(): ClarificationAnswer {
+    return { reason: 'Task was cancelled' };
+  }
+
+  protected undelivered(error: string): ClarificationAnswer {
+    return { reason: `Failed to dispatch question: ${error}` };
+  }
+
+  protected toRecord(request: ClarificationRequest, answer: ClarificationAnswer): ClarificationRecord {
+    return {
+      ...answer,
+      requestId: request.id,
+      question: request.question,
+      requestedAt: request.requestedAt,
+      answeredAt: new Date()
+    };
+  }
+
+  protected describe(_request: ClarificationRequest, record: ClarificationRecord): Record<string, unknown> {
+    return { answered: record.answer !== undefined, answeredBy: record.answeredBy, reason: record.reason };
+  }
+}
@@ -0,0 +1,32 @@
+import { ConsoleConversation, ConsoleOptions, ConsolePrompter } from '../human/console.js';
+import { ClarificationHandler } from './base.js';
+import { ClarificationHandlerOptions, ClarificationRequest } from './types.js';
+
+export interface ConsoleClarificationOptions extends ClarificationHandlerOptions, ConsoleOptions {}
+
+export class ConsoleClarificationHandler extends ClarificationHandler {
+  private readonly prompter: ConsolePrompter;
+
+  constructor(options: ConsoleClarificationOptions = {}) {
+    super(options);
+    this.prompter = new ConsolePrompter(options);
+  }
+
+  protected async dispatch(request: ClarificationRequest, settled: AbortSignal): Promise<void> {
+    this.prompter.enqueue(
+      settled,
+      conversation => this.prompt(request, conversation)
+    );
+  }
+
+  private async prompt(request: ClarificationRequest, { write, ask }: ConsoleConversation): Promise<void> {
+    write(
+      `\n${request.requestedBy} needs more information\n` +
+      (request.context ? `${request.context}\n` : '') +
+      (request.options?.length ? `Suggestions: ${request.options.join(', ')}\n` : '')
+    );
+
+    const answer = await ask(`${request.question}\n> `);
+    this.answer(request.id, answer.trim(), 'console');
+  }
+}
@@ -0,0 +1,23 @@
+import { HumanRequest, HumanRequestOptions } from '../human/types.js';
+
+export interface ClarificationRequest extends HumanRequest {
+  question: string;
+  context?: string; // Why the agent needs to know
+  options?: string[]; // Suggested answers, if the agent has some in mind
+}
+
+export interface ClarificationAnswer {
+  answer?: string; // Absent when nobody answered
+  answeredBy?: string;
+  reason?: string; // Why there is no answer
+  timedOut?: boolean;
+}
+
+export interface ClarificationRecord extends ClarificationAnswer {
+  requestId: string;
+  question: string;
+  requestedAt: Date;
+  answeredAt: Date;
+}
+
+export type ClarificationHandlerOptions = HumanRequestOptions;
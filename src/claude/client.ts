@@ -2,6 +2,8 @@ import Anthropic from '@anthropic-ai/sdk';
 import { logger } from '../logging/base.js';
 import { LogComponent } from '../logging/types.js';
 import { metricsService } from '../metrics/service.js';
+import { currentBudget } from '../budget/base.js';
+import { currentTracer } from '../trace/base.js';
 
 export interface ClaudeConfig {
   apiKey: string;
@@ -15,6 +17,56 @@ export interface CompletionOptions {
   maxTokens?: number;
   temperature?: number;
   systemPrompt?: string;
+  signal?: AbortSignal; // Aborts the in-flight API request
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  input_schema: {
+    type: 'object';
+    properties: Record<string, unknown>;
+    required?: string[];
+  };
+}
+
+export interface TextContent {
+  type: 'text';
+  text: string;
+}
+
+export interface ToolUseContent {
+  type: 'tool_use';
+  id: string;
+  name: string;
+  input: unknown;
+}
+
+export interface ToolResultContent {
+  type: 'tool_result';
+  tool_use_id: string;
+  content: string;
+  is_error?: boolean;
+}
+
+export type ResponseContent = TextContent | ToolUseContent;
+
+export interface ConversationMessage {
+  role: 'user' | 'assistant';
+  content: string | Array<ResponseContent | ToolResultContent>;
+}
+
+export interface ConversationOptions extends CompletionOptions {
+  tools?: ToolDefinition[];
+}
+
+export interface ConversationResponse {
+  content: ResponseContent[];
+  stopReason: 'end_turn' | 'max_tokens' | 'stop_sequence' | 'tool_use' | null;
+  usage: {
+    inputTokens: number;
+    outputTokens: number;
+  };
 }
 
 interface MessageParam {
@@ -68,19 +120,23 @@ export class ClaudeClient {
       temperature
     });
 
+    const budget = currentBudget();
+
     try {
-      const response = await this.client.messages.create({
+      budget?.assertWithinBudget();
+      const response = await this.send({
         model: this.model,
         max_tokens: maxTokens,
         temperature,
         messages
-      });
+      }, options.signal);
 
       const duration = Date.now() - startTime;
       const inputTokens = response.usage.input_tokens;
       const outputTokens = response.usage.output_tokens;
       const responseLength = response.content[0]?.type === 'text' ? response.content[0].text.length : 0;
       this.totalTokensUsed += inputTokens + outputTokens;
+      budget?.record(this.model, inputTokens, outputTokens);
 
       // Record metrics
       metricsService.recordModelUsage(this.role, {
@@ -118,6 +174,85 @@ export class ClaudeClient {
     }
   }
 
+  async converse(
+    messages: ConversationMessage[],
+    options: ConversationOptions = {}
+  ): Promise<ConversationResponse> {
+    const startTime = Date.now();
+    const systemPrompt = options.systemPrompt || '';
+    const maxTokens = options.maxTokens || this.defaultMaxTokens;
+    const temperature = options.temperature || this.defaultTemperature;
+    const tools = options.tools ?? [];
+    const contextLength = JSON.stringify(messages).length + systemPrompt.length;
+
+    logger.debug(LogComponent.CLAUDE, 'Sending conversation request', {
+      messageCount: messages.length,
+      toolCount: tools.length,
+      hasSystemPrompt: !!systemPrompt,
+      maxTokens,
+      temperature
+    });
+
+    const budget = currentBudget();
+
+    try {
+      budget?.assertWithinBudget();
+      const response = await this.send({
+        model: this.model,
+        max_tokens: maxTokens,
+        temperature,
+        messages,
+        ...(systemPrompt ? { system: systemPrompt } : {}),
+        ...(tools.length > 0 ? { tools } : {})
+      }, options.signal);
+
+      const duration = Date.now() - startTime;
+      const inputTokens = response.usage.input_tokens;
+      const outputTokens = response.usage.output_tokens;
+      const responseLength = response.content.reduce(
+        (sum, block) => sum + (block.type === 'text' ? block.text.length : JSON.stringify(block.input).length),
+        0
+      );
+      this.totalTokensUsed += inputTokens + outputTokens;
+      budget?.record(this.model, inputTokens, outputTokens);
+
+      // Record metrics
+      metricsService.recordModelUsage(this.role, {
+        inputTokens,
+        outputTokens,
+        totalTokens: inputTokens + outputTokens,
+        contextLength,
+        responseLength,
+        duration
+      });
+
+      logger.info(LogComponent.CLAUDE, 'Conversation turn successful', {
+        duration,
+        inputTokens,
+        outputTokens,
+        totalTokensUsed: this.totalTokensUsed,
+        stopReason: response.stop_reason,
+        toolUseCount: response.content.filter(block => block.type === 'tool_use').length
+      });
+
+      return {
+        content: response.content,
+        stopReason: response.stop_reason,
+        usage: { inputTokens, outputTokens }
+      };
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      logger.error(LogComponent.CLAUDE, 'Conversation turn failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        duration,
+        messageCount: messages.length
+      });
+      throw new Error(
+        error instanceof Error ? error.message : 'Unknown Claude API error'
+      );
+    }
+  }
+
   async countTokens(text: string): Promise<number> {
     const startTime = Date.now();
     
@@ -148,6 +283,21 @@ export class ClaudeClient {
     }
   }
 
+  // Goes through the current task's tracer, if any, so requests can be recorded or answered from a trace
+  private send(
+    params: Anthropic.Messages.MessageCreateParamsNonStreaming,
+    signal?: AbortSignal
+  ): Promise<Anthropic.Messages.Message> {
+    const request = () => this.client.messages.create(params, { signal });
+    const tracer = currentTracer();
+    return tracer ? tracer.claude(params, request) : request();
+  }
+
+  // A client with the same settings whose usage is reported under another role
+  withRole(role: string): ClaudeClient {
+    return new ClaudeClient({ ...this.config, role });
+  }
+
   getTotalTokensUsed(): number {
     return this.totalTokensUsed;
   }
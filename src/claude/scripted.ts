@@ -0,0 +1,96 @@
+import { logger } from '../logging/base.js';
+import { LogComponent } from '../logging/types.js';
+import {
+  ClaudeClient,
+  ClaudeConfig,
+  CompletionOptions,
+  ConversationMessage,
+  ConversationOptions,
+  ConversationResponse
+} from './client.js';
+
+export type ScriptedRequest =
+  | { method: 'complete'; prompt: string; options: CompletionOptions }
+  | { method: 'converse'; messages: ConversationMessage[]; options: ConversationOptions };
+
+// Plain text ends the turn; a response object can also request tool calls
+export type ScriptedReply = string | (Pick<ConversationResponse, 'content'> & Partial<ConversationResponse>);
+
+// Replies handed out in order, or a function that answers each request
+export type Script = ScriptedReply[] | ((request: ScriptedRequest) => ScriptedReply | Promise<ScriptedReply>);
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Answers from a script instead of the API, so agents can run offline and deterministically
+export class ScriptedClaudeClient extends ClaudeClient {
+  private readonly script: Script;
+  private readonly requests: ScriptedRequest[] = [];
+  private replies: number = 0;
+
+  constructor(script: Script, config: Partial<ClaudeConfig> = {}) {
+    super({ apiKey: 'offline', ...config });
+    this.script = script;
+  }
+
+  async complete(prompt: string, options: CompletionOptions = {}): Promise<string> {
+    const reply = await this.reply({ method: 'complete', prompt, options });
+    if (typeof reply === 'string') return reply;
+
+    const text = reply.content.find(block => block.type === 'text');
+    if (!text || text.type !== 'text') {
+      throw new Error('Unexpected response format: First content block is not text');
+    }
+    return text.text;
+  }
+
+  async converse(messages: ConversationMessage[], options: ConversationOptions = {}): Promise<ConversationResponse> {
+    // Copied because the caller keeps appending to the array after the request
+    const reply = await this.reply({ method: 'converse', messages: [...messages], options });
+    if (typeof reply === 'string') {
+      return {
+        content: [{ type: 'text', text: reply }],
+        stopReason: 'end_turn',
+        usage: { inputTokens: estimateTokens(JSON.stringify(messages)), outputTokens: estimateTokens(reply) }
+      };
+    }
+
+    return {
+      stopReason: reply.content.some(block => block.type === 'tool_use') ? 'tool_use' : 'end_turn',
+      usage: { inputTokens: estimateTokens(JSON.stringify(messages)), outputTokens: 0 },
+      ...reply
+    };
+  }
+
+  async countTokens(text: string): Promise<number> {
+    return estimateTokens(text);
+  }
+
+  // The script is shared, so there is nothing to gain from a separate client per role
+  withRole(): ClaudeClient {
+    return this;
+  }
+
+  // Every request answered so far, oldest first
+  getRequests(): ScriptedRequest[] {
+    return [...this.requests];
+  }
+
+  private async reply(request: ScriptedRequest): Promise<ScriptedReply> {
+    this.requests.push(request);
+
+    if (typeof this.script === 'function') {
+      return this.script(request);
+    }
+
+    if (this.replies >= this.script.length) {
+      logger.error(LogComponent.CLAUDE, 'Scripted client ran out of replies', {
+        method: request.method,
+        requests: this.requests.length
+      });
+      throw new Error(`Script has no reply left for request ${this.requests.length}`);
+    }
+    return this.script[this.replies++];
+  }
+}
@@ -0,0 +1,230 @@
+import type { Agent, AgentTask, TaskResult } from '../agents/base/Agent.js';
+import type { Backplane } from '../backplane/base.js';
+import { logger } from '../logging/base.js';
+import { LogComponent } from '../logging/types.js';
+import type { JsonSchema } from '../schema/types.js';
+import { Ballot, ConsensusRequest, ConsensusResult } from './types.js';
+
+export interface ConsensusConfig {
+  agent: Pick<Agent, 'getId' | 'execute' | 'delegate'>; // Coordinates the vote and judges debates by default
+  backplane: Pick<Backplane, 'findCollaborators' | 'getDiscoveryService'>;
+}
+
+interface Voter {
+  agentId: string;
+  role?: string;
+}
+
+interface Position {
+  choice: string;
+  rationale: string;
+  confidence?: number;
+}
+
+function positionSchema(options?: string[]): JsonSchema {
+  return {
+    type: 'object',
+    required: ['choice', 'rationale'],
+    properties: {
+      choice: options?.length ? { type: 'string', enum: options } : { type: 'string', minLength: 1 },
+      rationale: { type: 'string', minLength: 1 },
+      confidence: { type: 'number', minimum: 0, maximum: 1 }
+    }
+  };
+}
+
+function describeBallots(ballots: Ballot[]): Array<Pick<Ballot, 'agentId' | 'role' | 'choice' | 'rationale'>> {
+  return ballots
+    .filter(ballot => ballot.choice !== undefined)
+    .map(({ agentId, role, choice, rationale }) => ({ agentId, role, choice, rationale }));
+}
+
+export class Consensus {
+  private readonly agent: ConsensusConfig['agent'];
+  private readonly backplane: ConsensusConfig['backplane'];
+
+  constructor(config: ConsensusConfig) {
+    this.agent = config.agent;
+    this.backplane = config.backplane;
+  }
+
+  async decide(request: ConsensusRequest): Promise<ConsensusResult> {
+    const voters = await this.findVoters(request);
+    if (voters.length === 0) {
+      throw new Error('No collaborators found to vote');
+    }
+
+    logger.info(LogComponent.AGENT, 'Starting consensus vote', {
+      question: request.question,
+      strategy: request.strategy,
+      voters: voters.map(voter => voter.agentId)
+    });
+
+    const rounds: Ballot[][] = [await this.collect(voters, request)];
+    if (request.strategy === 'debate') {
+      for (let round = 2; round <= (request.rounds ?? 2); round++) {
+        rounds.push(await this.collect(voters, request, rounds[rounds.length - 1]));
+      }
+    }
+
+    const ballots = rounds[rounds.length - 1];
+    const tally = this.tally(ballots);
+    const outcome = request.strategy === 'debate'
+      ? await this.judge(request, ballots)
+      : this.count(tally, ballots);
+
+    logger.info(LogComponent.AGENT, 'Consensus reached', {
+      question: request.question,
+      strategy: request.strategy,
+      decision: outcome.decision,
+      tally
+    });
+
+    return {
+      ...outcome,
+      tally,
+      question: request.question,
+      strategy: request.strategy,
+      ballots,
+      rounds
+    };
+  }
+
+  private async findVoters(request: ConsensusRequest): Promise<Voter[]> {
+    const self = this.agent.getId();
+    const ids: string[] = [];
+
+    for (const query of request.voters) {
+      const found = (await this.backplane.findCollaborators({ role: query.role, capabilities: query.capabilities }))
+        .filter(id => id !== self && !ids.includes(id));
+      ids.push(...found.slice(0, query.limit ?? found.length));
+    }
+
+    const roles = new Map(
+      (await this.backplane.getDiscoveryService().findAgents({})).map(info => [info.id, info.role])
+    );
+    return ids.map(agentId => ({ agentId, role: roles.get(agentId) }));
+  }
+
+  // Asks every voter in parallel; later debate rounds show each voter the others' positions
+  private collect(voters: Voter[], request: ConsensusRequest, previous?: Ballot[]): Promise<Ballot[]> {
+    return Promise.all(voters.map(async voter => {
+      const own = previous?.find(ballot => ballot.agentId === voter.agentId);
+      const task: AgentTask = {
+        goal: request.question,
+        task: previous
+          ? 'Review the other positions on this question and give your final answer. Change your choice only if their arguments convince you.'
+          : 'Answer this question with your choice and the reasoning behind it.',
+        data: {
+          question: request.question,
+          ...(request.options ? { options: request.options } : {}),
+          ...(request.context !== undefined ? { context: request.context } : {}),
+          ...(previous ? {
+            yourPosition: own?.choice ? { choice: own.choice, rationale: own.rationale } : undefined,
+            otherPositions: describeBallots(previous.filter(ballot => ballot.agentId !== voter.agentId))
+          } : {})
+        },
+        outputSchema: positionSchema(request.options)
+      };
+
+      const result = await this.agent.delegate(task, { agentIds: [voter.agentId], timeout: request.timeout });
+      return this.toBallot(voter, result, request);
+    }));
+  }
+
+  private toBallot(voter: Voter, result: TaskResult, request: ConsensusRequest): Ballot {
+    const weight = request.strategy === 'weighted' && voter.role
+      ? request.weights?.[voter.role] ?? 1
+      : 1;
+    const position = result.output as Position | undefined;
+
+    if (!result.success || !position) {
+      const error = typeof result.result === 'string' ? result.result : 'No position returned';
+      logger.warn(LogComponent.AGENT, 'Voter did not answer', { agentId: voter.agentId, error });
+      return { ...voter, rationale: '', weight, error };
+    }
+
+    return {
+      ...voter,
+      choice: position.choice.trim(),
+      rationale: position.rationale,
+      ...(position.confidence !== undefined ? { confidence: position.confidence } : {}),
+      weight
+    };
+  }
+
+  // Groups choices case-insensitively under the first spelling seen
+  private tally(ballots: Ballot[]): Record<string, number> {
+    const labels = new Map<string, string>();
+    const tally: Record<string, number> = {};
+
+    for (const ballot of ballots) {
+      if (ballot.choice === undefined) continue;
+
+      const key = ballot.choice.toLowerCase();
+      if (!labels.has(key)) labels.set(key, ballot.choice);
+      const label = labels.get(key)!;
+      ballot.choice = label;
+      tally[label] = (tally[label] ?? 0) + ballot.weight;
+    }
+
+    return tally;
+  }
+
+  private count(tally: Record<string, number>, ballots: Ballot[]): Pick<ConsensusResult, 'decision' | 'rationale'> {
+    const ranked = Object.entries(tally).sort((a, b) => b[1] - a[1]);
+    if (ranked.length === 0) {
+      return { rationale: 'No voter gave an answer' };
+    }
+
+    const total = ranked.reduce((sum, [, votes]) => sum + votes, 0);
+    const [[choice, votes], runnerUp] = ranked;
+    if (runnerUp && runnerUp[1] === votes) {
+      const tied = ranked.filter(([, count]) => count === votes).map(([label]) => label);
+      return { rationale: `Tie between ${tied.join(', ')}` };
+    }
+
+    const voters = ballots.filter(ballot => ballot.choice === choice).map(ballot => ballot.agentId);
+    return {
+      decision: choice,
+      rationale: `${choice} won ${votes} of ${total} votes (${voters.join(', ')})`
+    };
+  }
+
+  private async judge(
+    request: ConsensusRequest,
+    ballots: Ballot[]
+  ): Promise<Pick<ConsensusResult, 'decision' | 'rationale' | 'judge'>> {
+    const task: AgentTask = {
+      goal: request.question,
+      task: 'Judge this debate. Weigh the arguments rather than counting votes, then give the final decision and why.',
+      data: {
+        question: request.question,
+        ...(request.options ? { options: request.options } : {}),
+        ...(request.context !== undefined ? { context: request.context } : {}),
+        positions: describeBallots(ballots)
+      },
+      outputSchema: positionSchema(request.options)
+    };
+
+    const selection = request.judge;
+    let judgeId = selection?.agentId;
+    if (!judgeId && selection?.role) {
+      const found = await this.backplane.findCollaborators({ role: selection.role });
+      judgeId = found.find(id => id !== this.agent.getId());
+      if (!judgeId) {
+        throw new Error(`No judge found with role ${selection.role}`);
+      }
+    }
+
+    const result = judgeId
+      ? await this.agent.delegate(task, { agentIds: [judgeId], timeout: request.timeout })
+      : await this.agent.execute(task);
+    const judge = this.toBallot({ agentId: judgeId ?? this.agent.getId() }, result, request);
+
+    if (judge.choice === undefined) {
+      return { rationale: `Judge gave no decision: ${judge.error}`, judge };
+    }
+    return { decision: judge.choice, rationale: judge.rationale, judge };
+  }
+}
@@ -0,0 +1,45 @@
+export type ConsensusStrategy = 'majority' | 'weighted' | 'debate';
+
+export interface VoterQuery {
+  role?: string;
+  capabilities?: string[];
+  limit?: number; // Most agents to take from this query
+}
+
+export interface JudgeSelection {
+  agentId?: string;
+  role?: string; // Delegate judging to a collaborator with this role
+}
+
+export interface ConsensusRequest {
+  question: string;
+  options?: string[]; // Voters must pick one of these when given
+  context?: unknown; // Background handed to every voter
+  voters: VoterQuery[];
+  strategy: ConsensusStrategy;
+  weights?: Record<string, number>; // Vote weight by role for the weighted strategy; defaults to 1
+  rounds?: number; // Debate rounds, including the opening one
+  judge?: JudgeSelection; // The coordinating agent judges when omitted
+  timeout?: number; // Milliseconds to wait for each voter
+}
+
+export interface Ballot {
+  agentId: string;
+  role?: string;
+  choice?: string; // Absent when the voter failed to answer
+  rationale: string;
+  confidence?: number;
+  weight: number;
+  error?: string;
+}
+
+export interface ConsensusResult {
+  question: string;
+  strategy: ConsensusStrategy;
+  decision?: string; // Absent on a tie or when nobody voted
+  rationale?: string;
+  tally: Record<string, number>;
+  ballots: Ballot[]; // Final position of every voter
+  rounds: Ballot[][]; // Every round, for debates
+  judge?: Ballot;
+}
@@ -0,0 +1,329 @@
+import { Agent, AgentConfig, AgentTask, TaskResult } from '../agents/base/Agent.js';
+import { Memory } from '../agents/base/Memory.js';
+import type { ClaudeClient } from '../claude/client.js';
+import { logger } from '../logging/base.js';
+import { LogComponent } from '../logging/types.js';
+import { RoleLoader } from '../roles/loader.js';
+import type { JsonSchema } from '../schema/types.js';
+import { extractJson, formatSchemaErrors, validateSchema } from '../schema/validator.js';
+import type { Tool } from '../tools/base.js';
+import {
+  CaseComparison,
+  CaseResult,
+  CheckResult,
+  EvalCase,
+  EvalCheck,
+  EvalReport,
+  EvalSuite,
+  ReportComparison
+} from './types.js';
+
+export interface EvaluationRunnerConfig {
+  claude: AgentConfig['claude']; // Pass a ScriptedClaudeClient to run the suite offline
+  judge?: Pick<ClaudeClient, 'complete'>; // Grades rubric checks; defaults to claude
+  roleLoader?: AgentConfig['roleLoader'];
+  tools?: Tool[];
+  backplane?: AgentConfig['backplane']; // Defaults to one that keeps evaluation agents to themselves
+}
+
+export interface EvaluationRunOptions {
+  rolePath?: string; // Run the suite against another role, e.g. a draft of the same one
+}
+
+const DEFAULT_JUDGE_THRESHOLD = 0.7;
+
+const JUDGE_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['score', 'reasoning'],
+  properties: {
+    score: { type: 'number', minimum: 0, maximum: 1 },
+    reasoning: { type: 'string' }
+  }
+};
+
+// Evaluation agents must not pick up real work or be found by real collaborators
+function isolatedBackplane(): AgentConfig['backplane'] {
+  return {
+    connect: async () => undefined,
+    disconnect: async () => undefined,
+    cleanup: async () => undefined,
+    getDiscoveryService: () => ({
+      registerAgent: async () => undefined,
+      unregisterAgent: async () => undefined,
+      updateAgentStatus: async () => undefined,
+      findAgents: async () => [],
+      watchAgents: async () => undefined
+    }),
+    sendMessage: async () => undefined,
+    broadcastMessage: async () => undefined,
+    shareContext: async () => undefined,
+    findCollaborators: async () => [],
+    subscribe: async () => undefined,
+    unsubscribe: async () => undefined
+  };
+}
+
+function responseText(result: TaskResult): string {
+  return typeof result.result === 'string' ? result.result : JSON.stringify(result.result);
+}
+
+function checkName(check: EvalCheck, index: number): string {
+  return check.name ?? `${check.type}-${index + 1}`;
+}
+
+// Compares a fresh report against a saved one; a case regresses when it stops passing or loses more than tolerance
+export function compareReports(current: EvalReport, baseline: EvalReport, tolerance: number = 0): ReportComparison {
+  const before = new Map(baseline.cases.map(result => [result.id, result]));
+  const after = new Set(current.cases.map(result => result.id));
+  const regressions: CaseComparison[] = [];
+  const improvements: CaseComparison[] = [];
+
+  for (const result of current.cases) {
+    const previous = before.get(result.id);
+    if (!previous) continue;
+
+    const comparison: CaseComparison = {
+      id: result.id,
+      baseline: previous.score,
+      current: result.score,
+      delta: result.score - previous.score,
+      wasPassing: previous.passed,
+      passing: result.passed
+    };
+
+    if ((previous.passed && !result.passed) || comparison.delta < -tolerance) {
+      regressions.push(comparison);
+    } else if ((!previous.passed && result.passed) || comparison.delta > tolerance) {
+      improvements.push(comparison);
+    }
+  }
+
+  return {
+    baselineScore: baseline.score,
+    score: current.score,
+    delta: current.score - baseline.score,
+    regressions,
+    improvements,
+    added: current.cases.filter(result => !before.has(result.id)).map(result => result.id),
+    removed: baseline.cases.filter(result => !after.has(result.id)).map(result => result.id),
+    regressed: regressions.length > 0 || current.score < baseline.score - tolerance
+  };
+}
+
+// Runs every case in a fresh agent built from the suite's role and scores its response against the checks
+export class EvaluationRunner {
+  private readonly claude: AgentConfig['claude'];
+  private readonly judge: Pick<ClaudeClient, 'complete'>;
+  private readonly roleLoader: AgentConfig['roleLoader'];
+  private readonly tools: Tool[];
+  private readonly backplane: AgentConfig['backplane'];
+
+  constructor(config: EvaluationRunnerConfig) {
+    this.claude = config.claude;
+    this.judge = config.judge ?? config.claude;
+    this.roleLoader = config.roleLoader ?? new RoleLoader();
+    this.tools = config.tools ?? [];
+    this.backplane = config.backplane ?? isolatedBackplane();
+  }
+
+  async run(suite: EvalSuite, options: EvaluationRunOptions = {}): Promise<EvalReport> {
+    const rolePath = options.rolePath ?? suite.rolePath;
+    const startedAt = new Date();
+    const ids = new Set(suite.cases.map(evalCase => evalCase.id));
+    if (ids.size !== suite.cases.length) {
+      throw new Error(`Case ids in suite ${suite.name} must be unique`);
+    }
+
+    logger.info(LogComponent.AGENT, 'Starting evaluation', {
+      suite: suite.name,
+      rolePath,
+      cases: suite.cases.length
+    });
+
+    // One case at a time, so scripted replies and rate limits stay predictable
+    const cases: CaseResult[] = [];
+    for (const evalCase of suite.cases) {
+      cases.push(await this.runCase(suite, evalCase, rolePath));
+    }
+
+    const report: EvalReport = {
+      suite: suite.name,
+      rolePath,
+      score: cases.length > 0 ? cases.reduce((sum, result) => sum + result.score, 0) / cases.length : 0,
+      passed: cases.filter(result => result.passed).length,
+      total: cases.length,
+      cases,
+      startedAt,
+      duration: Date.now() - startedAt.getTime()
+    };
+
+    logger.info(LogComponent.AGENT, 'Evaluation finished', {
+      suite: suite.name,
+      rolePath,
+      score: report.score,
+      passed: report.passed,
+      total: report.total
+    });
+    return report;
+  }
+
+  private async runCase(suite: EvalSuite, evalCase: EvalCase, rolePath: string): Promise<CaseResult> {
+    const startTime = Date.now();
+    const memory = new Memory({
+      shortTermLimit: 100,
+      summarizeInterval: '1h',
+      pruneThreshold: 0.5,
+      claude: this.claude
+    });
+    const agent = new Agent({
+      id: `${suite.name}-${evalCase.id}`,
+      rolePath,
+      tools: this.tools,
+      claude: this.claude,
+      backplane: this.backplane,
+      memory,
+      roleLoader: this.roleLoader,
+      // Cases start from a blank memory, so remembering them only costs Claude calls
+      memoryOptions: { storeExperiences: false, extractLearnings: false }
+    });
+
+    try {
+      await memory.initialize();
+      await agent.start();
+      const result = await agent.execute(evalCase.task);
+      const response = responseText(result);
+
+      if (!result.success) {
+        logger.warn(LogComponent.AGENT, 'Evaluation case failed to run', { suite: suite.name, case: evalCase.id });
+        return {
+          id: evalCase.id,
+          passed: false,
+          score: 0,
+          response,
+          checks: [],
+          error: response,
+          duration: Date.now() - startTime
+        };
+      }
+
+      const checks: CheckResult[] = [];
+      for (const [index, check] of evalCase.checks.entries()) {
+        checks.push(await this.runCheck(check, index, evalCase.task, response, result.output));
+      }
+
+      const totalWeight = evalCase.checks.reduce((sum, check) => sum + (check.weight ?? 1), 0);
+      const score = totalWeight > 0
+        ? checks.reduce((sum, check, index) => sum + check.score * (evalCase.checks[index].weight ?? 1), 0) / totalWeight
+        : 1;
+
+      return {
+        id: evalCase.id,
+        passed: checks.every(check => check.passed),
+        score,
+        response,
+        checks,
+        duration: Date.now() - startTime
+      };
+    } catch (error) {
+      logger.error(LogComponent.AGENT, 'Evaluation case threw', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        suite: suite.name,
+        case: evalCase.id
+      });
+      return {
+        id: evalCase.id,
+        passed: false,
+        score: 0,
+        checks: [],
+        error: error instanceof Error ? error.message : 'Unknown error',
+        duration: Date.now() - startTime
+      };
+    } finally {
+      await agent.stop({ flush: false });
+    }
+  }
+
+  private async runCheck(
+    check: EvalCheck,
+    index: number,
+    task: AgentTask,
+    response: string,
+    output: unknown
+  ): Promise<CheckResult> {
+    const base = { name: checkName(check, index), type: check.type };
+    const outcome = (passed: boolean, detail?: string): CheckResult =>
+      ({ ...base, passed, score: passed ? 1 : 0, ...(detail !== undefined ? { detail } : {}) });
+
+    switch (check.type) {
+      case 'exact': {
+        const [actual, expected] = check.ignoreCase
+          ? [response.trim().toLowerCase(), check.expected.trim().toLowerCase()]
+          : [response.trim(), check.expected.trim()];
+        return outcome(actual === expected, actual === expected ? undefined : `Expected "${check.expected}"`);
+      }
+
+      case 'regex': {
+        let pattern: RegExp;
+        try {
+          pattern = new RegExp(check.pattern, check.flags);
+        } catch (error) {
+          return outcome(false, error instanceof Error ? error.message : 'Unknown error');
+        }
+        const matched = pattern.test(response);
+        return outcome(matched, matched ? undefined : `No match for /${check.pattern}/${check.flags ?? ''}`);
+      }
+
+      case 'schema': {
+        let value = output;
+        if (value === undefined) {
+          try {
+            value = extractJson(response);
+          } catch (error) {
+            return outcome(false, error instanceof Error ? error.message : 'Unknown error');
+          }
+        }
+        const errors = validateSchema(value, check.schema);
+        return outcome(errors.length === 0, errors.length > 0 ? formatSchemaErrors(errors) : undefined);
+      }
+
+      case 'judge': {
+        try {
+          const verdict = await this.grade(check.rubric, task, response);
+          return {
+            ...base,
+            passed: verdict.score >= (check.threshold ?? DEFAULT_JUDGE_THRESHOLD),
+            score: verdict.score,
+            detail: verdict.reasoning
+          };
+        } catch (error) {
+          return outcome(false, `Judge failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+      }
+    }
+  }
+
+  private async grade(rubric: string, task: AgentTask, response: string): Promise<{ score: number; reasoning: string }> {
+    const verdict = await this.judge.complete(`
+Grade this response against the rubric.
+
+Task:
+Goal: ${task.goal}
+Task: ${task.task}
+
+Rubric:
+${rubric}
+
+Response:
+${response}
+
+Score how well the response meets the rubric, from 0 (not at all) to 1 (fully), and explain why.
+Respond with only JSON: {"score": 0.0, "reasoning": "..."}`);
+
+    const parsed = extractJson(verdict);
+    const errors = validateSchema(parsed, JUDGE_SCHEMA);
+    if (errors.length > 0) {
+      throw new Error(`Invalid verdict:\n${formatSchemaErrors(errors)}`);
+    }
+    return parsed as { score: number; reasoning: string };
+  }
+}
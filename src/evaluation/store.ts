@@ -0,0 +1,26 @@
+import { promises as fs } from 'fs';
+import { writeFileAtomic } from '../utils/files.js';
+import { EvalReport, EvalSuite } from './types.js';
+
+export async function loadSuite(path: string): Promise<EvalSuite> {
+  const suite = JSON.parse(await fs.readFile(path, 'utf-8')) as EvalSuite;
+  if (!suite.name || !suite.rolePath || !Array.isArray(suite.cases)) {
+    throw new Error(`Invalid evaluation suite in ${path}: needs name, rolePath and cases`);
+  }
+  return suite;
+}
+
+// Saved reports become the baseline that later runs are compared against
+export async function saveReport(path: string, report: EvalReport): Promise<void> {
+  await writeFileAtomic(path, JSON.stringify(report, null, 2));
+}
+
+export async function loadReport(path: string): Promise<EvalReport | null> {
+  try {
+    const report = JSON.parse(await fs.readFile(path, 'utf-8')) as EvalReport;
+    return { ...report, startedAt: new Date(report.startedAt) };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
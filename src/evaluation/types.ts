@@ -0,0 +1,93 @@
+import type { AgentTask } from '../agents/base/Agent.js';
+import type { JsonSchema } from '../schema/types.js';
+
+interface CheckBase {
+  name?: string; // Defaults to the check type and its position
+  weight?: number; // Share of the case score; defaults to 1
+}
+
+export interface ExactCheck extends CheckBase {
+  type: 'exact';
+  expected: string;
+  ignoreCase?: boolean;
+}
+
+export interface RegexCheck extends CheckBase {
+  type: 'regex';
+  pattern: string;
+  flags?: string;
+}
+
+export interface SchemaCheck extends CheckBase {
+  type: 'schema';
+  schema: JsonSchema; // The response must contain JSON matching this
+}
+
+export interface JudgeCheck extends CheckBase {
+  type: 'judge';
+  rubric: string;
+  threshold?: number; // Judge score from 0 to 1 that passes; defaults to 0.7
+}
+
+export type EvalCheck = ExactCheck | RegexCheck | SchemaCheck | JudgeCheck;
+
+export interface EvalCase {
+  id: string;
+  task: AgentTask;
+  checks: EvalCheck[];
+}
+
+export interface EvalSuite {
+  name: string;
+  rolePath: string; // Role every case runs under, unless the run overrides it
+  cases: EvalCase[];
+}
+
+export interface CheckResult {
+  name: string;
+  type: EvalCheck['type'];
+  passed: boolean;
+  score: number; // 0 to 1
+  detail?: string; // Why the check failed, or the judge's reasoning
+}
+
+export interface CaseResult {
+  id: string;
+  passed: boolean; // The task succeeded and every check passed
+  score: number; // Weighted mean of the check scores; 0 when the task failed
+  response?: string;
+  checks: CheckResult[];
+  error?: string;
+  duration: number;
+}
+
+export interface EvalReport {
+  suite: string;
+  rolePath: string;
+  score: number; // Mean case score
+  passed: number;
+  total: number;
+  cases: CaseResult[];
+  startedAt: Date;
+  duration: number;
+}
+
+export interface CaseComparison {
+  id: string;
+  baseline: number;
+  current: number;
+  delta: number;
+  wasPassing: boolean;
+  passing: boolean;
+}
+
+export interface ReportComparison {
+  baselineScore: number;
+  score: number;
+  delta: number;
+  regressions: CaseComparison[]; // Cases that stopped passing or lost more than the tolerance
+  improvements: CaseComparison[];
+  added: string[]; // Case ids missing from the baseline
+  removed: string[]; // Baseline case ids no longer in the suite
+  regressed: boolean;
+}
@@ -0,0 +1,151 @@
+import type { AgentTask } from '../agents/base/Agent.js';
+import { logger } from '../logging/base.js';
+import { LogComponent } from '../logging/types.js';
+import { metricsService } from '../metrics/service.js';
+import { Guardrail, GuardrailContext, GuardrailResult, GuardrailStage, GuardrailVerdict } from './types.js';
+
+// Parts of a task that end up in front of Claude
+const INPUT_FIELDS = ['goal', 'task', 'data', 'history', 'parentContext'] as const;
+
+export interface GuardrailOutcome<T> {
+  value: T; // After any rewrites
+  results: GuardrailResult[]; // Every verdict other than allow, in order
+  rejection?: GuardrailResult; // Set when a guardrail rejected; checking stops there
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+// Runs guardrails in order: rewrites feed the next guardrail, flags are noted, the first rejection ends the check
+export class GuardrailChain {
+  private readonly guardrails: Guardrail[];
+
+  constructor(guardrails: Guardrail[] = []) {
+    const names = new Set<string>();
+    for (const guardrail of guardrails) {
+      if (names.has(guardrail.name)) {
+        throw new Error(`Guardrail ${guardrail.name} is registered twice`);
+      }
+      names.add(guardrail.name);
+    }
+    this.guardrails = guardrails;
+  }
+
+  get isEmpty(): boolean {
+    return this.guardrails.length === 0;
+  }
+
+  // Checks every string in the task's goal, text, data, history and parent context
+  async checkInput(task: AgentTask, agentId: string): Promise<GuardrailOutcome<AgentTask>> {
+    const results: GuardrailResult[] = [];
+    const guarded: AgentTask = { ...task };
+
+    for (const field of INPUT_FIELDS) {
+      if (task[field] === undefined) continue;
+
+      const outcome = await this.walk(task[field], field, { agentId, stage: 'input', task }, results);
+      if (outcome.rejection) {
+        return { value: task, results, rejection: outcome.rejection };
+      }
+      Object.assign(guarded, { [field]: outcome.value });
+    }
+
+    return { value: guarded, results };
+  }
+
+  async checkOutput(response: string, task: AgentTask, agentId: string): Promise<GuardrailOutcome<string>> {
+    const results: GuardrailResult[] = [];
+    return this.apply(response, { agentId, stage: 'output', task, field: 'response' }, results);
+  }
+
+  private async walk(
+    value: unknown,
+    field: string,
+    context: Omit<GuardrailContext, 'field'>,
+    results: GuardrailResult[]
+  ): Promise<GuardrailOutcome<unknown>> {
+    if (typeof value === 'string') {
+      return this.apply(value, { ...context, field }, results);
+    }
+
+    if (Array.isArray(value)) {
+      const items: unknown[] = [];
+      for (const [index, item] of value.entries()) {
+        const outcome = await this.walk(item, `${field}[${index}]`, context, results);
+        if (outcome.rejection) return outcome;
+        items.push(outcome.value);
+      }
+      return { value: items, results };
+    }
+
+    if (isPlainObject(value)) {
+      const entries: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value)) {
+        const outcome = await this.walk(item, `${field}.${key}`, context, results);
+        if (outcome.rejection) return outcome;
+        entries[key] = outcome.value;
+      }
+      return { value: entries, results };
+    }
+
+    return { value, results };
+  }
+
+  private async apply(
+    content: string,
+    context: GuardrailContext,
+    results: GuardrailResult[]
+  ): Promise<GuardrailOutcome<string>> {
+    let current = content;
+
+    for (const guardrail of this.guardrails.filter(g => g.stages.includes(context.stage))) {
+      let verdict: GuardrailVerdict | undefined;
+      try {
+        verdict = await guardrail.check(current, context);
+      } catch (error) {
+        // Policy checks fail closed
+        verdict = {
+          action: 'reject',
+          reason: `Guardrail failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+        };
+      }
+      if (!verdict) continue;
+
+      const result: GuardrailResult = {
+        guardrail: guardrail.name,
+        stage: context.stage,
+        field: context.field,
+        action: verdict.action,
+        reason: verdict.reason
+      };
+      results.push(result);
+      this.report(result, context.agentId);
+
+      if (verdict.action === 'reject') {
+        return { value: current, results, rejection: result };
+      }
+      if (verdict.action === 'rewrite' && verdict.content !== undefined) {
+        current = verdict.content;
+      }
+    }
+
+    return { value: current, results };
+  }
+
+  private report(result: GuardrailResult, agentId: string): void {
+    metricsService.recordGuardrail(result.guardrail, result.action);
+
+    const details = { agentId, ...result };
+    if (result.action === 'rewrite') {
+      logger.info(LogComponent.AGENT, 'Guardrail rewrote content', details);
+    } else {
+      logger.warn(LogComponent.AGENT, result.action === 'reject' ? 'Guardrail rejected content' : 'Guardrail flagged content', details);
+    }
+  }
+}
+
+export function describeRejection(rejection: GuardrailResult): string {
+  const stage: Record<GuardrailStage, string> = { input: 'Task', output: 'Response' };
+  return `${stage[rejection.stage]} rejected by guardrail ${rejection.guardrail}: ${rejection.reason}`;
+}
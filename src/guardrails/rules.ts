@@ -0,0 +1,173 @@
+import type { JsonSchema } from '../schema/types.js';
+import { extractJson, formatSchemaErrors, validateSchema } from '../schema/validator.js';
+import { Guardrail, GuardrailStage } from './types.js';
+
+interface RedactionPattern {
+  label: string;
+  pattern: RegExp; // Must be global
+  keepPrefix?: boolean; // Leave the first capture group, e.g. the "password=" part, in place
+  matches?: (match: string) => boolean; // Extra test to cut false positives
+}
+
+export interface RedactionOptions {
+  stages?: GuardrailStage[]; // Defaults to both
+  replacement?: string; // Defaults to [REDACTED]
+}
+
+export interface TopicOptions {
+  stages?: GuardrailStage[]; // Defaults to both
+  action?: 'reject' | 'flag';
+}
+
+export interface LengthOptions {
+  action?: 'reject' | 'rewrite'; // Rewriting truncates
+}
+
+export interface FormatOptions {
+  pattern?: RegExp;
+  schema?: JsonSchema; // The response must contain JSON matching this
+  action?: 'reject' | 'flag';
+}
+
+const SECRET_PATTERNS: RedactionPattern[] = [
+  { label: 'private key', pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g },
+  { label: 'AWS access key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { label: 'API key', pattern: /\bsk-(?:ant-)?[A-Za-z0-9_-]{20,}/g },
+  { label: 'GitHub token', pattern: /\bgh[pousr]_[A-Za-z0-9]{36,}\b/g },
+  { label: 'bearer token', pattern: /\b(Bearer\s+)[A-Za-z0-9._~+/-]{16,}=*/g, keepPrefix: true },
+  {
+    label: 'credential',
+    pattern: /\b((?:password|passwd|secret|api[_-]?key|access[_-]?token|token)["']?\s*[:=]\s*["']?)[^\s"',;]+/gi,
+    keepPrefix: true
+  }
+];
+
+// test() on a global RegExp carries state between calls
+function withoutGlobal(pattern: RegExp): RegExp {
+  return new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, ''));
+}
+
+// Luhn checksum, so order numbers and the like are not taken for card numbers
+function isCardNumber(match: string): boolean {
+  const digits = match.replace(/\D/g, '');
+  if (digits.length < 13 || digits.length > 19) return false;
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+const PII_PATTERNS: RedactionPattern[] = [
+  { label: 'email address', pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g },
+  { label: 'card number', pattern: /\b\d(?:[ -]?\d){12,18}\b/g, matches: isCardNumber },
+  { label: 'social security number', pattern: /\b\d{3}-\d{2}-\d{4}\b/g },
+  { label: 'phone number', pattern: /(?<![\w+])(?:\+\d{1,3}[ .-]?)?\(?\d{3}\)?[ .-]?\d{3}[ .-]?\d{4}(?!\d)/g }
+];
+
+function redactor(name: string, patterns: RedactionPattern[], options: RedactionOptions): Guardrail {
+  const replacement = options.replacement ?? '[REDACTED]';
+
+  return {
+    name,
+    stages: options.stages ?? ['input', 'output'],
+    check: content => {
+      const found = new Set<string>();
+      let redacted = content;
+
+      for (const { label, pattern, keepPrefix, matches } of patterns) {
+        redacted = redacted.replace(pattern, (match: string, prefix: unknown) => {
+          if (matches && !matches(match)) return match;
+          found.add(label);
+          return `${keepPrefix && typeof prefix === 'string' ? prefix : ''}${replacement}`;
+        });
+      }
+
+      if (found.size === 0) return undefined;
+      return { action: 'rewrite', reason: `Redacted ${Array.from(found).join(', ')}`, content: redacted };
+    }
+  };
+}
+
+// Replaces API keys, tokens, private keys and password assignments
+export function redactSecrets(options: RedactionOptions = {}): Guardrail {
+  return redactor('redact-secrets', SECRET_PATTERNS, options);
+}
+
+// Replaces email addresses, card numbers, social security numbers and phone numbers
+export function redactPii(options: RedactionOptions = {}): Guardrail {
+  return redactor('redact-pii', PII_PATTERNS, options);
+}
+
+// Topics match as whole words, ignoring case; pass a RegExp for anything looser
+export function blockTopics(topics: Array<string | RegExp>, options: TopicOptions = {}): Guardrail {
+  const matchers = topics.map(topic => ({
+    topic: typeof topic === 'string' ? topic : topic.source,
+    pattern: typeof topic === 'string'
+      ? new RegExp(`\\b${topic.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i')
+      : withoutGlobal(topic)
+  }));
+
+  return {
+    name: 'block-topics',
+    stages: options.stages ?? ['input', 'output'],
+    check: content => {
+      const hit = matchers.find(({ pattern }) => pattern.test(content));
+      return hit ? { action: options.action ?? 'reject', reason: `Mentions forbidden topic "${hit.topic}"` } : undefined;
+    }
+  };
+}
+
+export function limitResponseLength(maxLength: number, options: LengthOptions = {}): Guardrail {
+  return {
+    name: 'limit-response-length',
+    stages: ['output'],
+    check: content => {
+      if (content.length <= maxLength) return undefined;
+
+      const reason = `Response is ${content.length} characters, over the limit of ${maxLength}`;
+      return options.action === 'rewrite'
+        ? { action: 'rewrite', reason, content: content.slice(0, maxLength) }
+        : { action: 'reject', reason };
+    }
+  };
+}
+
+export function requireFormat(options: FormatOptions): Guardrail {
+  if (!options.pattern && !options.schema) {
+    throw new Error('requireFormat needs a pattern or a schema');
+  }
+
+  return {
+    name: 'require-format',
+    stages: ['output'],
+    check: content => {
+      const action = options.action ?? 'reject';
+
+      if (options.pattern && !withoutGlobal(options.pattern).test(content)) {
+        return { action, reason: `Response does not match ${options.pattern}` };
+      }
+
+      if (options.schema) {
+        let value: unknown;
+        try {
+          value = extractJson(content);
+        } catch (error) {
+          return { action, reason: error instanceof Error ? error.message : 'Unknown error' };
+        }
+        const errors = validateSchema(value, options.schema);
+        if (errors.length > 0) {
+          return { action, reason: `Response does not match the required schema:\n${formatSchemaErrors(errors)}` };
+        }
+      }
+
+      return undefined;
+    }
+  };
+}
@@ -0,0 +1,33 @@
+import type { AgentTask } from '../agents/base/Agent.js';
+
+export type GuardrailStage = 'input' | 'output';
+
+// Allowing is expressed by returning no verdict
+export type GuardrailAction = 'reject' | 'rewrite' | 'flag';
+
+export interface GuardrailContext {
+  agentId: string;
+  stage: GuardrailStage;
+  task: AgentTask;
+  field: string; // Which part is being checked, e.g. data.customer.email or response
+}
+
+export interface GuardrailVerdict {
+  action: GuardrailAction;
+  reason: string;
+  content?: string; // Replacement text when rewriting
+}
+
+export interface Guardrail {
+  name: string;
+  stages: GuardrailStage[];
+  check(content: string, context: GuardrailContext): GuardrailVerdict | undefined | Promise<GuardrailVerdict | undefined>;
+}
+
+export interface GuardrailResult {
+  guardrail: string;
+  stage: GuardrailStage;
+  field: string;
+  action: GuardrailAction;
+  reason: string;
+}
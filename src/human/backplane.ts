@@ -0,0 +1,17 @@
+import type { Backplane } from '../backplane/base.js';
+import type { AgentMessage } from '../agents/base/Agent.js';
+
+export type HumanBackplane = Pick<Backplane, 'sendMessage' | 'broadcastMessage'>;
+
+// Sends a request to one operator, or to everyone listening when no recipient is set
+export async function sendToHuman(
+  backplane: HumanBackplane,
+  recipient: string | undefined,
+  message: AgentMessage
+): Promise<void> {
+  if (recipient) {
+    await backplane.sendMessage(recipient, message);
+  } else {
+    await backplane.broadcastMessage(message);
+  }
+}
@@ -0,0 +1,110 @@
+import type { AgentMessage } from '../agents/base/Agent.js';
+import { logger } from '../logging/base.js';
+import { LogComponent } from '../logging/types.js';
+import { HumanRequest } from './types.js';
+
+interface PendingRequest<TRequest, TRecord> {
+  request: TRequest;
+  resolve: (record: TRecord) => void;
+  timer: NodeJS.Timeout;
+  settled: AbortController; // Lets dispatch() stop waiting on a human once the request is over
+  cleanup: () => void;
+}
+
+// Tracks requests waiting on a human until a reply, the timeout or the caller's signal settles them.
+// Subclasses supply the payloads: what a reply looks like and what it turns into once settled.
+export abstract class HumanRequestHandler<TRequest extends HumanRequest, TReply, TRecord> {
+  private pending: Map<string, PendingRequest<TRequest, TRecord>> = new Map();
+  protected readonly timeout: number;
+  readonly responseType?: string; // Set by handlers whose replies arrive as agent messages of this type
+
+  constructor(
+    timeout: number,
+    private readonly label: string, // e.g. "Approval", used in log messages
+    private readonly component: LogComponent
+  ) {
+    this.timeout = timeout;
+  }
+
+  getPending(): TRequest[] {
+    return Array.from(this.pending.values()).map(p => p.request);
+  }
+
+  // Settles the request a reply message answers; false when it isn't one of ours
+  handleMessage(_message: AgentMessage): boolean {
+    return false;
+  }
+
+  protected open(request: Omit<TRequest, 'id' | 'requestedAt'>, signal?: AbortSignal): Promise<TRecord> {
+    const fullRequest = {
+      ...request,
+      id: crypto.randomUUID(),
+      requestedAt: new Date()
+    } as TRequest;
+
+    logger.info(this.component, `${this.label} requested`, {
+      requestId: fullRequest.id,
+      requestedBy: fullRequest.requestedBy
+    });
+
+    return new Promise<TRecord>(resolve => {
+      const timer = setTimeout(() => {
+        this.settle(fullRequest.id, this.timedOut());
+      }, this.timeout);
+
+      const onAbort = () => this.settle(fullRequest.id, this.cancelled());
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      const settled = new AbortController();
+      this.pending.set(fullRequest.id, {
+        request: fullRequest,
+        resolve,
+        timer,
+        settled,
+        cleanup: () => signal?.removeEventListener('abort', onAbort)
+      });
+
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+
+      this.dispatch(fullRequest, settled.signal).catch(error => {
+        this.settle(fullRequest.id, this.undelivered(error instanceof Error ? error.message : 'Unknown error'));
+      });
+    });
+  }
+
+  protected settle(requestId: string, reply: TReply): boolean {
+    const pending = this.pending.get(requestId);
+    if (!pending) {
+      logger.warn(this.component, `Reply for unknown or settled ${this.label.toLowerCase()} request`, { requestId });
+      return false;
+    }
+
+    clearTimeout(pending.timer);
+    pending.settled.abort();
+    pending.cleanup();
+    this.pending.delete(requestId);
+
+    const record = this.toRecord(pending.request, reply);
+    logger.info(this.component, `${this.label} settled`, { requestId, ...this.describe(pending.request, record) });
+
+    pending.resolve(record);
+    return true;
+  }
+
+  // Delivers the request to a human; the reply arrives later through settle(), after which settled fires
+  protected abstract dispatch(request: TRequest, settled: AbortSignal): Promise<void>;
+
+  protected abstract timedOut(): TReply;
+
+  protected abstract cancelled(): TReply;
+
+  protected abstract undelivered(error: string): TReply;
+
+  protected abstract toRecord(request: TRequest, reply: TReply): TRecord;
+
+  // Fields worth logging once a request settles
+  protected abstract describe(request: TRequest, record: TRecord): Record<string, unknown>;
+}
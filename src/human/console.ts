@@ -0,0 +1,52 @@
+import { createInterface } from 'readline/promises';
+import { logger } from '../logging/base.js';
+import { LogComponent } from '../logging/types.js';
+
+export interface ConsoleOptions {
+  input?: NodeJS.ReadableStream;
+  output?: NodeJS.WritableStream;
+}
+
+export interface ConsoleConversation {
+  write(text: string): void;
+  ask(question: string): Promise<string>;
+}
+
+// Holds one conversation with the console at a time so answers to different requests can't interleave
+export class ConsolePrompter {
+  private readonly input: NodeJS.ReadableStream;
+  private readonly output: NodeJS.WritableStream;
+  private chain: Promise<void> = Promise.resolve();
+
+  constructor(options: ConsoleOptions = {}) {
+    this.input = options.input ?? process.stdin;
+    this.output = options.output ?? process.stdout;
+  }
+
+  // Requests settled while waiting their turn are skipped; one settled mid-question has the question withdrawn
+  enqueue(settled: AbortSignal, converse: (conversation: ConsoleConversation) => Promise<void>): void {
+    this.chain = this.chain
+      .then(() => settled.aborted ? undefined : this.run(settled, converse))
+      .catch(error => {
+        if (settled.aborted) return; // The withdrawn question rejects; nothing went wrong
+        logger.warn(LogComponent.AGENT, 'Console prompt failed', {
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      });
+  }
+
+  private async run(
+    settled: AbortSignal,
+    converse: (conversation: ConsoleConversation) => Promise<void>
+  ): Promise<void> {
+    const rl = createInterface({ input: this.input, output: this.output });
+    try {
+      await converse({
+        write: text => this.output.write(text),
+        ask: question => rl.question(question, { signal: settled })
+      });
+    } finally {
+      rl.close();
+    }
+  }
+}
@@ -0,0 +1,11 @@
+// What every request put to a human carries, whatever it asks for
+export interface HumanRequest {
+  id: string;
+  requestedBy: string;
+  requestedAt: Date;
+  metadata?: Record<string, unknown>;
+}
+
+export interface HumanRequestOptions {
+  timeout?: number; // Milliseconds to wait for a reply
+}
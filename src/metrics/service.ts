@@ -1,9 +1,10 @@
-import { ModelMetrics, AgentMetrics, MetricsSummary, MetricsService } from './types.js';
+import { ModelMetrics, AgentMetrics, GuardrailMetrics, MetricsSummary, MetricsService } from './types.js';
 import { logger } from '../logging/base.js';
 import { LogComponent } from '../logging/types.js';
 
 export class InMemoryMetricsService implements MetricsService {
   private metrics: Record<string, AgentMetrics> = {};
+  private guardrails: Record<string, GuardrailMetrics> = {};
 
   recordModelUsage(role: string, metrics: ModelMetrics): void {
     if (!this.metrics[role]) {
@@ -38,6 +39,13 @@ export class InMemoryMetricsService implements MetricsService {
     });
   }
 
+  recordGuardrail(guardrail: string, action: 'reject' | 'rewrite' | 'flag'): void {
+    const counts = this.guardrails[guardrail] ??= { rejected: 0, rewritten: 0, flagged: 0 };
+    if (action === 'reject') counts.rejected++;
+    else if (action === 'rewrite') counts.rewritten++;
+    else counts.flagged++;
+  }
+
   getMetricsSummary(): MetricsSummary {
     let totalTasks = 0;
     let totalInputTokens = 0;
@@ -61,6 +69,7 @@ export class InMemoryMetricsService implements MetricsService {
     // Calculate averages
     const summary: MetricsSummary = {
       byAgent: this.metrics,
+      guardrails: this.guardrails,
       overall: {
         totalTasks,
         averageInputTokens: totalTasks > 0 ? totalInputTokens / totalTasks : 0,
@@ -83,6 +92,7 @@ export class InMemoryMetricsService implements MetricsService {
 
   resetMetrics(): void {
     this.metrics = {};
+    this.guardrails = {};
     logger.info(LogComponent.AGENT, 'Reset metrics');
   }
 }
@@ -12,8 +12,16 @@ export interface AgentMetrics extends ModelMetrics {
   taskCount: number;
 }
 
+// How often each guardrail stepped in
+export interface GuardrailMetrics {
+  rejected: number;
+  rewritten: number;
+  flagged: number;
+}
+
 export interface MetricsSummary {
   byAgent: Record<string, AgentMetrics>;
+  guardrails?: Record<string, GuardrailMetrics>;
   overall: {
     totalTasks: number;
     averageInputTokens: number;
@@ -27,6 +35,7 @@ export interface MetricsSummary {
 
 export interface MetricsService {
   recordModelUsage(role: string, metrics: ModelMetrics): void;
+  recordGuardrail(guardrail: string, action: 'reject' | 'rewrite' | 'flag'): void;
   getMetricsSummary(): MetricsSummary;
   resetMetrics(): void;
 }
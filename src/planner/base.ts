@@ -0,0 +1,394 @@
+import type { Agent, AgentTask, TaskResult } from '../agents/base/Agent.js';
+import type { Backplane } from '../backplane/base.js';
+import type { AgentInfo } from '../backplane/types.js';
+import type { ClaudeClient } from '../claude/client.js';
+import { logger } from '../logging/base.js';
+import { LogComponent } from '../logging/types.js';
+import type { JsonSchema } from '../schema/types.js';
+import { extractJson, formatSchemaErrors, validateSchema } from '../schema/validator.js';
+import { PlanExecutionResult, PlannerOptions, PlanTask, TaskPlan } from './types.js';
+
+export interface PlannerConfig extends PlannerOptions {
+  agent: Pick<Agent, 'getId' | 'execute' | 'delegate'>; // Runs subtasks locally or hands them off
+  claude: Pick<ClaudeClient, 'complete'>;
+  backplane: Pick<Backplane, 'getDiscoveryService'>;
+}
+
+const PLAN_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['tasks'],
+  properties: {
+    tasks: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        required: ['id', 'description'],
+        properties: {
+          id: { type: 'string', minLength: 1 },
+          description: { type: 'string', minLength: 1 },
+          dependencies: { type: 'array', items: { type: 'string' } },
+          role: { type: 'string' },
+          capabilities: { type: 'array', items: { type: 'string' } }
+        }
+      }
+    }
+  }
+};
+
+const PLAN_FORMAT = `Respond with JSON only, in this format:
+{
+  "tasks": [
+    { "id": "short-id", "description": "What to do", "dependencies": [], "role": "Role name", "capabilities": ["capability"] }
+  ]
+}
+List every dependency by id. Tasks without dependencies between them run in parallel.`;
+
+// Orders tasks so each comes after its dependencies; throws on unknown ids and cycles
+export function topologicalOrder(tasks: Array<Pick<PlanTask, 'id' | 'dependencies'>>): string[] {
+  const ids = new Set(tasks.map(task => task.id));
+  if (ids.size !== tasks.length) {
+    throw new Error('Plan contains duplicate task ids');
+  }
+
+  const remaining = new Map<string, Set<string>>();
+  for (const task of tasks) {
+    const unknown = task.dependencies.find(id => !ids.has(id));
+    if (unknown) {
+      throw new Error(`Task ${task.id} depends on unknown task ${unknown}`);
+    }
+    remaining.set(task.id, new Set(task.dependencies));
+  }
+
+  const order: string[] = [];
+  while (remaining.size > 0) {
+    const ready = Array.from(remaining.entries())
+      .filter(([, dependencies]) => dependencies.size === 0)
+      .map(([id]) => id);
+
+    if (ready.length === 0) {
+      throw new Error(`Plan contains a dependency cycle between ${Array.from(remaining.keys()).join(', ')}`);
+    }
+
+    for (const id of ready) {
+      remaining.delete(id);
+      order.push(id);
+    }
+    for (const dependencies of remaining.values()) {
+      ready.forEach(id => dependencies.delete(id));
+    }
+  }
+
+  return order;
+}
+
+export class Planner {
+  private readonly agent: PlannerConfig['agent'];
+  private readonly claude: PlannerConfig['claude'];
+  private readonly backplane: PlannerConfig['backplane'];
+  private readonly maxParallel: number;
+  private readonly maxReplans: number;
+
+  constructor(config: PlannerConfig) {
+    this.agent = config.agent;
+    this.claude = config.claude;
+    this.backplane = config.backplane;
+    this.maxParallel = config.maxParallel ?? 3;
+    this.maxReplans = config.maxReplans ?? 2;
+  }
+
+  async run(goal: string, data?: unknown): Promise<PlanExecutionResult> {
+    const plan = await this.plan(goal, data);
+    return this.execute(plan);
+  }
+
+  async plan(goal: string, data?: unknown): Promise<TaskPlan> {
+    const agents = await this.listAgents();
+    const prompt = `
+Break this goal down into subtasks that can be handed to a team of agents.
+
+Goal: ${goal}
+${data === undefined ? '' : `\nInput:\n${JSON.stringify(data, null, 2)}\n`}
+Available agents:
+${this.formatAgents(agents)}
+
+Give each subtask the role and capabilities best suited to it.
+
+${PLAN_FORMAT}`;
+
+    const tasks = await this.requestTasks(prompt);
+    topologicalOrder(tasks);
+
+    logger.info(LogComponent.AGENT, 'Created task plan', {
+      goal,
+      taskCount: tasks.length
+    });
+
+    return { goal, data, tasks, revision: 0 };
+  }
+
+  async execute(plan: TaskPlan): Promise<PlanExecutionResult> {
+    topologicalOrder(plan.tasks);
+
+    const results: Record<string, TaskResult> = {};
+    for (const task of plan.tasks) {
+      if (task.status === 'completed' && task.result) {
+        results[task.id] = task.result;
+      }
+    }
+
+    let agents = await this.listAgents();
+    let replans = 0;
+
+    for (;;) {
+      const failed = await this.runReadyTasks(plan, results, agents);
+      if (!failed) break;
+
+      if (replans >= this.maxReplans) {
+        logger.error(LogComponent.AGENT, 'Giving up on plan after subtask failure', {
+          goal: plan.goal,
+          taskId: failed.id,
+          replans
+        });
+        break;
+      }
+
+      replans++;
+      try {
+        await this.replan(plan, failed);
+      } catch (error) {
+        logger.error(LogComponent.AGENT, 'Failed to re-plan', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+          goal: plan.goal,
+          taskId: failed.id
+        });
+        break;
+      }
+      agents = await this.listAgents();
+    }
+
+    for (const task of plan.tasks) {
+      if (task.status === 'pending') {
+        task.status = 'skipped';
+      }
+    }
+
+    const success = plan.tasks.every(task => task.status === 'completed');
+    logger.info(LogComponent.AGENT, 'Task plan finished', {
+      goal: plan.goal,
+      success,
+      revision: plan.revision,
+      replans
+    });
+
+    return { success, plan, results, replans };
+  }
+
+  // Runs everything whose dependencies are met, stopping new work after the first failure
+  private async runReadyTasks(
+    plan: TaskPlan,
+    results: Record<string, TaskResult>,
+    agents: AgentInfo[]
+  ): Promise<PlanTask | undefined> {
+    const running = new Map<string, Promise<void>>();
+    let failed: PlanTask | undefined;
+
+    const isReady = (task: PlanTask) =>
+      task.status === 'pending' && task.dependencies.every(id => results[id]?.success);
+
+    for (;;) {
+      if (!failed) {
+        for (const task of plan.tasks.filter(isReady)) {
+          if (running.size >= this.maxParallel) break;
+
+          task.status = 'running';
+          running.set(task.id, this.runTask(plan, task, results, agents)
+            .then(() => {
+              if (task.status === 'failed' && !failed) {
+                failed = task;
+              }
+            })
+            .finally(() => running.delete(task.id)));
+        }
+      }
+
+      if (running.size === 0) break;
+      await Promise.race(running.values());
+    }
+
+    return failed;
+  }
+
+  private async runTask(
+    plan: TaskPlan,
+    task: PlanTask,
+    results: Record<string, TaskResult>,
+    agents: AgentInfo[]
+  ): Promise<void> {
+    const agentTask: AgentTask = {
+      goal: plan.goal,
+      task: task.description,
+      data: {
+        input: plan.data,
+        dependencies: Object.fromEntries(
+          task.dependencies.map(id => [id, results[id].output ?? results[id].result])
+        )
+      }
+    };
+
+    const selfId = this.agent.getId();
+    const ranked = this.rankAgents(task, agents);
+    const selfRank = ranked.indexOf(selfId);
+    const remote = selfRank === -1 ? ranked : ranked.slice(0, selfRank);
+    const canRunLocally = selfRank !== -1 || ranked.length === 0;
+
+    logger.info(LogComponent.AGENT, 'Running planned subtask', {
+      goal: plan.goal,
+      taskId: task.id,
+      candidates: ranked
+    });
+
+    let result: TaskResult;
+    try {
+      const delegated = remote.length > 0
+        ? await this.agent.delegate(agentTask, { agentIds: remote, role: task.role, capabilities: task.capabilities })
+        : undefined;
+
+      if (delegated?.agentId || (delegated && !canRunLocally)) {
+        task.assignedTo = delegated.agentId;
+        result = delegated;
+      } else {
+        task.assignedTo = selfId;
+        result = await this.agent.execute(agentTask);
+      }
+    } catch (error) {
+      result = {
+        success: false,
+        result: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+
+    task.result = result;
+    task.status = result.success ? 'completed' : 'failed';
+    if (result.success) {
+      results[task.id] = result;
+    } else {
+      logger.warn(LogComponent.AGENT, 'Planned subtask failed', {
+        goal: plan.goal,
+        taskId: task.id,
+        assignedTo: task.assignedTo,
+        error: typeof result.result === 'string' ? result.result : JSON.stringify(result.result)
+      });
+    }
+  }
+
+  // Replaces every unfinished task with a fresh plan for the remaining work
+  private async replan(plan: TaskPlan, failed: PlanTask): Promise<void> {
+    const completed = plan.tasks.filter(task => task.status === 'completed');
+    const unfinished = plan.tasks.filter(task => task.status !== 'completed');
+    const agents = await this.listAgents();
+
+    const prompt = `
+A subtask failed while working towards this goal. Re-plan the remaining work.
+
+Goal: ${plan.goal}
+
+Completed subtasks (you may depend on these ids):
+${completed.map(task => `- ${task.id}: ${task.description}\n  Result: ${this.formatResult(task.result)}`).join('\n') || 'None'}
+
+Failed subtask:
+- ${failed.id}: ${failed.description}
+  Error: ${this.formatResult(failed.result)}
+
+Unfinished subtasks to replace:
+${unfinished.map(task => `- ${task.id}: ${task.description}`).join('\n')}
+
+Available agents:
+${this.formatAgents(agents)}
+
+Return only the subtasks still needed to reach the goal. Do not repeat completed subtasks.
+
+${PLAN_FORMAT}`;
+
+    const replacement = await this.requestTasks(prompt);
+    const completedIds = new Set(completed.map(task => task.id));
+    const clash = replacement.find(task => completedIds.has(task.id));
+    if (clash) {
+      throw new Error(`Re-plan reuses completed task id ${clash.id}`);
+    }
+
+    const tasks = [...completed, ...replacement];
+    topologicalOrder(tasks);
+
+    plan.tasks = tasks;
+    plan.revision++;
+
+    logger.info(LogComponent.AGENT, 'Re-planned after subtask failure', {
+      goal: plan.goal,
+      failedTask: failed.id,
+      revision: plan.revision,
+      taskCount: replacement.length
+    });
+  }
+
+  private async requestTasks(prompt: string): Promise<PlanTask[]> {
+    const response = await this.claude.complete(prompt);
+    const parsed = extractJson(response) as { tasks: Array<Partial<PlanTask>> };
+
+    const errors = validateSchema(parsed, PLAN_SCHEMA);
+    if (errors.length > 0) {
+      throw new Error(`Invalid plan:\n${formatSchemaErrors(errors)}`);
+    }
+
+    return parsed.tasks.map(task => ({
+      id: task.id!,
+      description: task.description!,
+      dependencies: task.dependencies ?? [],
+      role: task.role,
+      capabilities: task.capabilities,
+      status: 'pending'
+    }));
+  }
+
+  // Best match first: same role, then most shared capabilities, then idle over busy
+  private rankAgents(task: PlanTask, agents: AgentInfo[]): string[] {
+    const wanted = task.capabilities ?? [];
+    const selfId = this.agent.getId();
+
+    return agents
+      .map(agent => {
+        const roleMatch = !!task.role && agent.role.toLowerCase() === task.role.toLowerCase();
+        const shared = wanted.filter(capability => agent.capabilities.includes(capability)).length;
+        const eligible = roleMatch || shared > 0 || (!task.role && wanted.length === 0);
+        const score = (roleMatch ? 10 : 0) + shared - (agent.status === 'busy' ? 0.5 : 0);
+        return { id: agent.id, eligible, score };
+      })
+      .filter(candidate => candidate.eligible)
+      .sort((a, b) => b.score - a.score || Number(b.id === selfId) - Number(a.id === selfId))
+      .map(candidate => candidate.id);
+  }
+
+  private async listAgents(): Promise<AgentInfo[]> {
+    try {
+      const agents = await this.backplane.getDiscoveryService().findAgents({});
+      return agents.filter(agent => agent.status !== 'offline');
+    } catch (error) {
+      logger.warn(LogComponent.AGENT, 'Failed to list agents for planning', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return [];
+    }
+  }
+
+  private formatAgents(agents: AgentInfo[]): string {
+    if (agents.length === 0) return 'None registered';
+    return agents
+      .map(agent => `- ${agent.role} (${agent.id}): ${agent.capabilities.join(', ') || 'no listed capabilities'}`)
+      .join('\n');
+  }
+
+  private formatResult(result?: TaskResult): string {
+    if (!result) return 'none';
+    return typeof result.result === 'string' ? result.result : JSON.stringify(result.result);
+  }
+}
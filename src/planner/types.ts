@@ -0,0 +1,33 @@
+import type { TaskResult } from '../agents/base/Agent.js';
+
+export type PlanTaskStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
+
+export interface PlanTask {
+  id: string;
+  description: string;
+  dependencies: string[];
+  role?: string; // Preferred role for whoever picks the subtask up
+  capabilities?: string[];
+  status: PlanTaskStatus;
+  assignedTo?: string;
+  result?: TaskResult;
+}
+
+export interface TaskPlan {
+  goal: string;
+  data?: unknown; // Goal-level input handed to every subtask
+  tasks: PlanTask[];
+  revision: number; // Bumped on every re-plan
+}
+
+export interface PlannerOptions {
+  maxParallel?: number;
+  maxReplans?: number;
+}
+
+export interface PlanExecutionResult {
+  success: boolean;
+  plan: TaskPlan;
+  results: Record<string, TaskResult>;
+  replans: number;
+}
@@ -0,0 +1,115 @@
+import { PromptSectionName, PromptTemplates, PromptVariables, RenderedSection } from './types.js';
+
+export const DEFAULT_SECTIONS: Record<PromptSectionName, string> = {
+  role: `You are a {{role.name}}.
+{{role.description}}
+
+Your responsibilities include:
+{{role.responsibilities}}`,
+  capabilities: `Your capabilities:
+{{role.capabilities}}`,
+  tools: `Available tools:
+{{role.tools}}`,
+  instructions: `Instructions for your role:
+{{role.instructions}}`,
+  memory: '{{memories}}',
+  context: `{{previousWork}}
+
+{{parentContext}}`,
+  task: `Your current task:
+Goal: {{task.goal}}
+Task: {{task.task}}
+Data: {{task.data}}
+
+Please provide your response based on your role, capabilities, and available tools.
+
+{{outputSchema}}`
+};
+
+export const DEFAULT_ORDER: PromptSectionName[] = [
+  'role',
+  'capabilities',
+  'tools',
+  'instructions',
+  'memory',
+  'context',
+  'task'
+];
+
+// Replaces {{path}} placeholders; missing values render as empty strings
+export function interpolate(template: string, variables: PromptVariables): string {
+  return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, path: string) => {
+    const value = path
+      .split('.')
+      .reduce<unknown>((current, key) => (
+        current && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined
+      ), variables);
+
+    if (value === undefined || value === null) return '';
+    return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+  });
+}
+
+export class PromptBuilder {
+  private readonly sections: Map<string, string>;
+  private order: string[];
+
+  constructor(...layers: Array<PromptTemplates | undefined>) {
+    this.sections = new Map(Object.entries(DEFAULT_SECTIONS));
+    this.order = [...DEFAULT_ORDER];
+    layers.forEach(layer => this.apply(layer));
+  }
+
+  // Returns a new builder with per-task overrides layered on top
+  withOverrides(overrides?: PromptTemplates): PromptBuilder {
+    if (!overrides) return this;
+    return new PromptBuilder(this.toTemplates(), overrides);
+  }
+
+  getSections(): Array<{ name: string; template: string }> {
+    return this.order
+      .filter(name => this.sections.has(name))
+      .map(name => ({ name, template: this.sections.get(name)! }));
+  }
+
+  renderSections(variables: PromptVariables): RenderedSection[] {
+    return this.getSections()
+      .map(({ name, template }) => ({ name, content: interpolate(template, variables).trim() }))
+      .filter(section => section.content.length > 0);
+  }
+
+  render(variables: PromptVariables): string {
+    return this.renderSections(variables)
+      .map(section => section.content)
+      .join('\n\n');
+  }
+
+  private apply(layer?: PromptTemplates): void {
+    if (!layer) return;
+
+    for (const [name, template] of Object.entries(layer.sections ?? {})) {
+      if (template === null) {
+        this.sections.delete(name);
+        this.order = this.order.filter(entry => entry !== name);
+        continue;
+      }
+
+      if (!this.order.includes(name)) {
+        const taskIndex = this.order.indexOf('task');
+        this.order.splice(taskIndex === -1 ? this.order.length : taskIndex, 0, name);
+      }
+      this.sections.set(name, template);
+    }
+
+    if (layer.order) {
+      this.order = [...layer.order];
+    }
+  }
+
+  private toTemplates(): PromptTemplates {
+    return {
+      sections: Object.fromEntries(this.sections),
+      order: [...this.order]
+    };
+  }
+}
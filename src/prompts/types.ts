@@ -0,0 +1,21 @@
+export type PromptSectionName =
+  | 'role'
+  | 'capabilities'
+  | 'tools'
+  | 'instructions'
+  | 'memory'
+  | 'context'
+  | 'task';
+
+// Section templates use {{path}} placeholders such as {{role.name}} or {{task.goal}}
+export interface PromptTemplates {
+  sections?: Record<string, string | null>; // null removes an inherited section
+  order?: string[]; // New sections go just before "task" unless an order is given
+}
+
+export interface RenderedSection {
+  name: string;
+  content: string;
+}
+
+export type PromptVariables = Record<string, unknown>;
@@ -1,3 +1,5 @@
+import type { PromptTemplates } from '../prompts/types.js';
+
 export interface RoleCapability {
   name: string;
   description: string;
@@ -10,6 +12,7 @@ export interface RoleDefinition {
   capabilities: Record<string, string>;
   tools: Record<string, string>;
   instructions: string[];
+  prompts?: PromptTemplates; // Overrides or additions to the default prompt sections
 }
 
 export interface RoleContext {
@@ -83,6 +86,41 @@ export function validateRole(role: unknown): RoleValidationError[] {
     });
   });
 
+  // Optional prompt templates
+  if (r.prompts !== undefined) {
+    if (!r.prompts || typeof r.prompts !== 'object' || Array.isArray(r.prompts)) {
+      errors.push({
+        field: 'prompts',
+        message: 'prompts must be an object'
+      });
+      return errors;
+    }
+
+    const { sections, order } = r.prompts;
+    if (sections !== undefined && (!sections || typeof sections !== 'object' || Array.isArray(sections))) {
+      errors.push({
+        field: 'prompts.sections',
+        message: 'sections must be an object'
+      });
+    } else {
+      Object.entries(sections ?? {}).forEach(([key, val]) => {
+        if (typeof val !== 'string' && val !== null) {
+          errors.push({
+            field: `prompts.sections.${key}`,
+            message: 'Template must be a string or null'
+          });
+        }
+      });
+    }
+
+    if (order !== undefined && (!Array.isArray(order) || !order.every(item => typeof item === 'string'))) {
+      errors.push({
+        field: 'prompts.order',
+        message: 'order must be an array of strings'
+      });
+    }
+  }
+
   return errors;
 }
 
@@ -122,6 +160,15 @@ export function mergeRoles(base: RoleDefinition, extension: Partial<RoleDefiniti
     instructions: [
       ...base.instructions,
       ...(extension.instructions || [])
-    ]
+    ],
+    ...(base.prompts || extension.prompts ? {
+      prompts: {
+        sections: {
+          ...base.prompts?.sections,
+          ...extension.prompts?.sections
+        },
+        order: extension.prompts?.order ?? base.prompts?.order
+      }
+    } : {})
   };
 }
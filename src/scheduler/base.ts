@@ -0,0 +1,360 @@
+import type { Agent, AgentTask, ExecuteOptions } from '../agents/base/Agent.js';
+import type { Context } from '../agents/base/Context.js';
+import type { Memory } from '../agents/base/Memory.js';
+import { logger } from '../logging/base.js';
+import { LogComponent } from '../logging/types.js';
+import { InMemorySchedulerStore } from './store.js';
+import { JobDefinition, JobOptions, JobState, Schedule, SchedulerStore } from './types.js';
+
+const INTERVAL_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000
+};
+
+// setTimeout overflows past roughly 24.8 days, so longer waits are split up
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+// Parses interval strings such as "500ms", "30s", "15m", "1h" or "2d" into milliseconds
+export function parseInterval(spec: string): number {
+  const match = /^(\d+)\s*(ms|s|m|h|d)$/.exec(spec.trim());
+  if (!match || Number(match[1]) === 0) {
+    throw new Error(`Invalid interval: ${spec}`);
+  }
+  return Number(match[1]) * INTERVAL_UNITS[match[2]];
+}
+
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+}
+
+const CRON_FIELDS: CronField[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 } // 0 and 7 are both Sunday
+];
+
+function parseCronField(expression: string, field: CronField): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of expression.split(',')) {
+    const match = /^(\*|\d+(?:-\d+)?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw new Error(`Invalid cron ${field.name}: ${part}`);
+    }
+
+    const step = match[2] ? Number(match[2]) : 1;
+    const [from, to] = match[1] === '*'
+      ? [field.min, field.max]
+      : match[1].includes('-')
+        ? match[1].split('-').map(Number)
+        : [Number(match[1]), match[2] ? field.max : Number(match[1])];
+
+    if (step < 1 || from < field.min || to > field.max || from > to) {
+      throw new Error(`Invalid cron ${field.name}: ${part}`);
+    }
+    for (let value = from; value <= to; value += step) {
+      values.add(field.name === 'day of week' && value === 7 ? 0 : value);
+    }
+  }
+
+  return values;
+}
+
+// Standard five-field cron (minute hour day-of-month month day-of-week) in local time
+export class CronSchedule implements Schedule {
+  private readonly minutes: Set<number>;
+  private readonly hours: Set<number>;
+  private readonly daysOfMonth: Set<number>;
+  private readonly months: Set<number>;
+  private readonly daysOfWeek: Set<number>;
+  private readonly anyDayOfMonth: boolean;
+  private readonly anyDayOfWeek: boolean;
+
+  constructor(private readonly expression: string) {
+    const fields = expression.trim().split(/\s+/);
+    if (fields.length !== CRON_FIELDS.length) {
+      throw new Error(`Cron expression must have ${CRON_FIELDS.length} fields: ${expression}`);
+    }
+
+    [this.minutes, this.hours, this.daysOfMonth, this.months, this.daysOfWeek] =
+      fields.map((field, index) => parseCronField(field, CRON_FIELDS[index]));
+    this.anyDayOfMonth = fields[2] === '*';
+    this.anyDayOfWeek = fields[4] === '*';
+  }
+
+  next(after: Date): Date {
+    const date = new Date(after.getTime());
+    date.setSeconds(0, 0);
+    date.setMinutes(date.getMinutes() + 1);
+
+    // Skips whole months, days and hours at a time, so this only loops a few hundred times a year
+    for (let i = 0; i < 100000; i++) {
+      if (!this.months.has(date.getMonth() + 1)) {
+        date.setMonth(date.getMonth() + 1, 1);
+        date.setHours(0, 0, 0, 0);
+      } else if (!this.matchesDay(date)) {
+        date.setDate(date.getDate() + 1);
+        date.setHours(0, 0, 0, 0);
+      } else if (!this.hours.has(date.getHours())) {
+        date.setHours(date.getHours() + 1, 0, 0, 0);
+      } else if (!this.minutes.has(date.getMinutes())) {
+        date.setMinutes(date.getMinutes() + 1, 0, 0);
+      } else {
+        return date;
+      }
+    }
+
+    throw new Error(`Cron expression never fires: ${this.expression}`);
+  }
+
+  // As in cron, when both day fields are restricted either one matching is enough
+  private matchesDay(date: Date): boolean {
+    const dayOfMonth = this.daysOfMonth.has(date.getDate());
+    const dayOfWeek = this.daysOfWeek.has(date.getDay());
+    if (!this.anyDayOfMonth && !this.anyDayOfWeek) return dayOfMonth || dayOfWeek;
+    return dayOfMonth && dayOfWeek;
+  }
+}
+
+export function parseSchedule(spec: string): Schedule {
+  if (spec.trim().split(/\s+/).length === CRON_FIELDS.length) {
+    return new CronSchedule(spec);
+  }
+
+  const interval = parseInterval(spec);
+  return { next: after => new Date(after.getTime() + interval) };
+}
+
+export interface SchedulerOptions {
+  store?: SchedulerStore;
+}
+
+export interface MaintenanceTargets {
+  memory?: Pick<Memory, 'optimize' | 'getSummarizeInterval'>;
+  context?: Pick<Context, 'optimize'>;
+  interval?: string; // Defaults to the memory's summarizeInterval
+}
+
+interface ScheduledJob {
+  definition: JobDefinition;
+  schedule: Schedule;
+  state: JobState;
+  timer?: NodeJS.Timeout;
+  dueAt?: Date; // Scheduled time of the pending run, before jitter
+  runs: Set<Promise<void>>;
+}
+
+export class Scheduler {
+  private readonly store: SchedulerStore;
+  private readonly jobs: Map<string, ScheduledJob> = new Map();
+  private started: boolean = false;
+  private lastRuns: Record<string, Date> = {};
+
+  constructor(options: SchedulerOptions = {}) {
+    this.store = options.store ?? new InMemorySchedulerStore();
+  }
+
+  add(definition: JobDefinition): void {
+    if (this.jobs.has(definition.id)) {
+      throw new Error(`Job ${definition.id} is already scheduled`);
+    }
+
+    const schedule = parseSchedule(definition.schedule);
+    schedule.next(new Date()); // Fail now rather than at start() on expressions that never fire
+
+    const job: ScheduledJob = {
+      definition,
+      schedule,
+      state: {
+        id: definition.id,
+        schedule: definition.schedule,
+        running: 0,
+        runs: 0,
+        failures: 0,
+        skipped: 0
+      },
+      runs: new Set()
+    };
+    this.jobs.set(definition.id, job);
+
+    if (this.started) {
+      this.arm(job);
+    }
+  }
+
+  // Runs an agent task on a schedule; a task that does not succeed counts as a failed run
+  addAgentTask(
+    id: string,
+    schedule: string,
+    agent: Pick<Agent, 'execute'>,
+    task: AgentTask,
+    options: JobOptions & { execute?: ExecuteOptions } = {}
+  ): void {
+    const { execute, ...jobOptions } = options;
+    this.add({
+      ...jobOptions,
+      id,
+      schedule,
+      run: async () => {
+        const result = await agent.execute(task, execute);
+        if (!result.success) {
+          throw new Error(typeof result.result === 'string' ? result.result : JSON.stringify(result.result));
+        }
+        return result;
+      }
+    });
+  }
+
+  // Schedules Memory.optimize and Context.optimize, by default at the memory's summarizeInterval
+  addMaintenance(id: string, targets: MaintenanceTargets, options: JobOptions = {}): void {
+    const schedule = targets.interval ?? targets.memory?.getSummarizeInterval();
+    if (!schedule) {
+      throw new Error(`Maintenance job ${id} needs an interval or a memory to take one from`);
+    }
+
+    this.add({
+      ...options,
+      id,
+      schedule,
+      run: async () => {
+        await targets.memory?.optimize();
+        await targets.context?.optimize();
+      }
+    });
+  }
+
+  remove(id: string): boolean {
+    const job = this.jobs.get(id);
+    if (!job) return false;
+
+    clearTimeout(job.timer);
+    this.jobs.delete(id);
+    return true;
+  }
+
+  async start(): Promise<void> {
+    if (this.started) return;
+
+    this.lastRuns = await this.store.load();
+    this.started = true;
+    for (const job of this.jobs.values()) {
+      this.arm(job);
+    }
+
+    logger.info(LogComponent.AGENT, 'Scheduler started', { jobs: Array.from(this.jobs.keys()) });
+  }
+
+  // Stops scheduling new runs and waits for the ones in flight
+  async stop(): Promise<void> {
+    this.started = false;
+    const inFlight: Promise<void>[] = [];
+    for (const job of this.jobs.values()) {
+      clearTimeout(job.timer);
+      job.timer = undefined;
+      job.state.nextRunAt = undefined;
+      inFlight.push(...job.runs);
+    }
+
+    await Promise.all(inFlight);
+    logger.info(LogComponent.AGENT, 'Scheduler stopped');
+  }
+
+  // Runs a job immediately, still subject to its overlap limit
+  async runNow(id: string): Promise<void> {
+    const job = this.jobs.get(id);
+    if (!job) {
+      throw new Error(`Unknown job: ${id}`);
+    }
+    await this.fire(job);
+  }
+
+  getJobs(): JobState[] {
+    return Array.from(this.jobs.values()).map(job => ({ ...job.state }));
+  }
+
+  // Continues from the persisted run, catching up at most once if the job was missed while down
+  private arm(job: ScheduledJob): void {
+    const lastRunAt = job.state.lastRunAt ?? this.lastRuns[job.definition.id];
+    job.state.lastRunAt = lastRunAt;
+    this.armAt(job, job.schedule.next(lastRunAt ?? new Date()));
+  }
+
+  private armAt(job: ScheduledJob, due: Date): void {
+    const jitter = job.definition.jitter ? Math.random() * job.definition.jitter : 0;
+    const runAt = new Date(Math.max(due.getTime(), Date.now()) + jitter);
+    job.dueAt = due;
+    job.state.nextRunAt = runAt;
+    this.setTimer(job, runAt);
+  }
+
+  private setTimer(job: ScheduledJob, runAt: Date): void {
+    const delay = runAt.getTime() - Date.now();
+    job.timer = setTimeout(() => {
+      if (!this.started || this.jobs.get(job.definition.id) !== job) return;
+
+      if (delay > MAX_TIMER_DELAY) {
+        this.setTimer(job, runAt);
+        return;
+      }
+
+      void this.fire(job);
+
+      // Keep to the schedule rather than drifting by jitter, but never queue up missed runs
+      const now = new Date();
+      const next = job.schedule.next(job.dueAt ?? now);
+      this.armAt(job, next > now ? next : job.schedule.next(now));
+    }, Math.min(Math.max(delay, 0), MAX_TIMER_DELAY));
+  }
+
+  private async fire(job: ScheduledJob): Promise<void> {
+    const { definition, state } = job;
+    if (state.running >= (definition.maxConcurrent ?? 1)) {
+      state.skipped++;
+      logger.warn(LogComponent.AGENT, 'Skipping scheduled run, earlier runs still in progress', {
+        job: definition.id,
+        running: state.running
+      });
+      return;
+    }
+
+    const startedAt = new Date();
+    state.running++;
+    state.lastRunAt = startedAt;
+
+    const run = (async () => {
+      try {
+        // Saved before running so a crash mid-run does not fire the job again on restart
+        await this.store.save(definition.id, startedAt);
+        await definition.run();
+        state.runs++;
+        logger.info(LogComponent.AGENT, 'Scheduled job finished', {
+          job: definition.id,
+          duration: Date.now() - startedAt.getTime()
+        });
+      } catch (error) {
+        state.failures++;
+        state.lastError = error instanceof Error ? error.message : 'Unknown error';
+        logger.error(LogComponent.AGENT, 'Scheduled job failed', {
+          job: definition.id,
+          error: state.lastError
+        });
+      } finally {
+        state.running--;
+      }
+    })();
+
+    job.runs.add(run);
+    try {
+      await run;
+    } finally {
+      job.runs.delete(run);
+    }
+  }
+}
@@ -0,0 +1,45 @@
+import { promises as fs } from 'fs';
+import { writeFileAtomic } from '../utils/files.js';
+import { SchedulerStore } from './types.js';
+
+export class InMemorySchedulerStore implements SchedulerStore {
+  private lastRuns: Record<string, Date> = {};
+
+  async load(): Promise<Record<string, Date>> {
+    return { ...this.lastRuns };
+  }
+
+  async save(jobId: string, lastRunAt: Date): Promise<void> {
+    this.lastRuns[jobId] = lastRunAt;
+  }
+}
+
+// Stores last-run times as a JSON object of job id to ISO timestamp
+export class FileSchedulerStore implements SchedulerStore {
+  private lastRuns: Record<string, Date> = {};
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private readonly path: string) {}
+
+  async load(): Promise<Record<string, Date>> {
+    try {
+      const raw = JSON.parse(await fs.readFile(this.path, 'utf-8')) as Record<string, string>;
+      this.lastRuns = Object.fromEntries(
+        Object.entries(raw).map(([jobId, timestamp]) => [jobId, new Date(timestamp)])
+      );
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      this.lastRuns = {};
+    }
+    return { ...this.lastRuns };
+  }
+
+  async save(jobId: string, lastRunAt: Date): Promise<void> {
+    this.lastRuns[jobId] = lastRunAt;
+
+    // Writes are chained so an older set of run times never lands after a newer one
+    const content = JSON.stringify(this.lastRuns, null, 2);
+    this.writing = this.writing.catch(() => undefined).then(() => writeFileAtomic(this.path, content));
+    await this.writing;
+  }
+}
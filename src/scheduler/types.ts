@@ -0,0 +1,33 @@
+// When a job is next due after a given time
+export interface Schedule {
+  next(after: Date): Date;
+}
+
+export interface JobOptions {
+  jitter?: number; // Up to this many milliseconds of random delay per run
+  maxConcurrent?: number; // Runs still in flight before new ones are skipped; defaults to 1
+}
+
+export interface JobDefinition extends JobOptions {
+  id: string;
+  schedule: string; // Interval such as "30s", "15m" or "1h", or a five-field cron expression
+  run: () => Promise<unknown>;
+}
+
+export interface JobState {
+  id: string;
+  schedule: string;
+  running: number;
+  runs: number;
+  failures: number;
+  skipped: number; // Runs dropped because of the overlap limit
+  lastRunAt?: Date;
+  nextRunAt?: Date;
+  lastError?: string;
+}
+
+// Keeps last-run times across restarts so jobs don't fire again early
+export interface SchedulerStore {
+  load(): Promise<Record<string, Date>>;
+  save(jobId: string, lastRunAt: Date): Promise<void>;
+}
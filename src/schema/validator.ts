@@ -0,0 +1,161 @@
+import { JsonSchema, SchemaValidationError } from './types.js';
+
+export function validateSchema(
+  value: unknown,
+  schema: JsonSchema,
+  path: string = '$'
+): SchemaValidationError[] {
+  const errors: SchemaValidationError[] = [];
+
+  if (schema.anyOf) {
+    const matches = schema.anyOf.some(option => validateSchema(value, option, path).length === 0);
+    if (!matches) {
+      errors.push({ path, message: 'must match at least one of the allowed schemas' });
+    }
+  }
+
+  if (schema.const !== undefined && JSON.stringify(value) !== JSON.stringify(schema.const)) {
+    errors.push({ path, message: `must equal ${JSON.stringify(schema.const)}` });
+  }
+
+  if (schema.enum && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push({ path, message: `must be one of: ${schema.enum.map(e => JSON.stringify(e)).join(', ')}` });
+  }
+
+  if (!schema.type) {
+    return errors;
+  }
+
+  if (!matchesType(value, schema.type)) {
+    errors.push({ path, message: `must be of type ${schema.type}` });
+    return errors;
+  }
+
+  switch (schema.type) {
+    case 'string': {
+      const str = value as string;
+      if (schema.minLength !== undefined && str.length < schema.minLength) {
+        errors.push({ path, message: `must be at least ${schema.minLength} characters` });
+      }
+      if (schema.maxLength !== undefined && str.length > schema.maxLength) {
+        errors.push({ path, message: `must be at most ${schema.maxLength} characters` });
+      }
+      if (schema.pattern) {
+        const message = checkPattern(str, schema.pattern);
+        if (message) errors.push({ path, message });
+      }
+      break;
+    }
+
+    case 'number':
+    case 'integer': {
+      const num = value as number;
+      if (schema.minimum !== undefined && num < schema.minimum) {
+        errors.push({ path, message: `must be >= ${schema.minimum}` });
+      }
+      if (schema.maximum !== undefined && num > schema.maximum) {
+        errors.push({ path, message: `must be <= ${schema.maximum}` });
+      }
+      break;
+    }
+
+    case 'array': {
+      const arr = value as unknown[];
+      if (schema.minItems !== undefined && arr.length < schema.minItems) {
+        errors.push({ path, message: `must have at least ${schema.minItems} items` });
+      }
+      if (schema.maxItems !== undefined && arr.length > schema.maxItems) {
+        errors.push({ path, message: `must have at most ${schema.maxItems} items` });
+      }
+      if (schema.items) {
+        arr.forEach((item, index) => {
+          errors.push(...validateSchema(item, schema.items!, `${path}[${index}]`));
+        });
+      }
+      break;
+    }
+
+    case 'object': {
+      const obj = value as Record<string, unknown>;
+      for (const key of schema.required ?? []) {
+        if (!(key in obj)) {
+          errors.push({ path: `${path}.${key}`, message: 'is required' });
+        }
+      }
+      for (const [key, propSchema] of Object.entries(schema.properties ?? {})) {
+        if (key in obj) {
+          errors.push(...validateSchema(obj[key], propSchema, `${path}.${key}`));
+        }
+      }
+      if (schema.additionalProperties === false) {
+        const allowed = new Set(Object.keys(schema.properties ?? {}));
+        for (const key of Object.keys(obj)) {
+          if (!allowed.has(key)) {
+            errors.push({ path: `${path}.${key}`, message: 'is not an allowed property' });
+          }
+        }
+      }
+      break;
+    }
+  }
+
+  return errors;
+}
+
+// A broken pattern fails the value instead of throwing out of every caller that validates against it
+function checkPattern(value: string, pattern: string): string | undefined {
+  let regex: RegExp;
+  try {
+    regex = new RegExp(pattern);
+  } catch (error) {
+    return `cannot be checked against pattern ${pattern} (${error instanceof Error ? error.message : 'Unknown error'})`;
+  }
+  return regex.test(value) ? undefined : `must match pattern ${pattern}`;
+}
+
+function matchesType(value: unknown, type: NonNullable<JsonSchema['type']>): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && !Number.isNaN(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'null':
+      return value === null;
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
+
+// Models often wrap JSON in prose or code fences
+export function extractJson(text: string): unknown {
+  const trimmed = text.trim();
+
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    // Fall through to looser extraction
+  }
+
+  const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/);
+  if (fenced) {
+    return JSON.parse(fenced[1].trim());
+  }
+
+  const start = trimmed.search(/[[{]/);
+  const end = Math.max(trimmed.lastIndexOf('}'), trimmed.lastIndexOf(']'));
+  if (start !== -1 && end > start) {
+    return JSON.parse(trimmed.slice(start, end + 1));
+  }
+
+  throw new Error('Response does not contain JSON');
+}
+
+export function formatSchemaErrors(errors: SchemaValidationError[]): string {
+  return errors.map(e => `${e.path} ${e.message}`).join('\n');
+}
@@ -0,0 +1,184 @@
+import type { Agent, ExecuteOptions, TaskResult } from '../agents/base/Agent.js';
+import type { Context } from '../agents/base/Context.js';
+import type { ConversationMessage } from '../claude/client.js';
+import { logger } from '../logging/base.js';
+import { LogComponent } from '../logging/types.js';
+import { InMemorySessionStore } from './store.js';
+import { SessionData, SessionOptions, SessionStore, SessionTurn } from './types.js';
+
+export interface SessionConfig extends SessionOptions {
+  agent: Pick<Agent, 'getId' | 'execute' | 'getContext'>;
+  store?: SessionStore;
+  context?: Pick<Context, 'summarizeNodes'>; // Defaults to the agent's context
+}
+
+const DEFAULT_GOAL = 'Hold a helpful conversation with the user';
+
+// A multi-turn conversation with one agent; every completed turn is saved to the store
+export class Session {
+  private readonly agent: SessionConfig['agent'];
+  private readonly store: SessionStore;
+  private readonly context?: Pick<Context, 'summarizeNodes'>;
+  private readonly maxTurns: number;
+  private readonly keepTurns: number;
+  private data: SessionData;
+  private busy: boolean = false;
+
+  private constructor(config: SessionConfig, data: SessionData) {
+    this.agent = config.agent;
+    this.store = config.store ?? new InMemorySessionStore();
+    this.context = config.context ?? config.agent.getContext() ?? undefined;
+    this.maxTurns = config.maxTurns ?? 20;
+    this.keepTurns = config.keepTurns ?? 10;
+    this.data = data;
+
+    // History has to open with a user turn, so at least one exchange stays verbatim
+    if (this.keepTurns < 2 || this.keepTurns >= this.maxTurns) {
+      throw new Error('keepTurns must be at least 2 and less than maxTurns');
+    }
+  }
+
+  static async start(config: SessionConfig): Promise<Session> {
+    const now = new Date();
+    const session = new Session(config, {
+      id: crypto.randomUUID(),
+      agentId: config.agent.getId(),
+      goal: config.goal ?? DEFAULT_GOAL,
+      turns: [],
+      summarizedTurns: 0,
+      createdAt: now,
+      updatedAt: now
+    });
+    await session.save();
+
+    logger.info(LogComponent.AGENT, 'Session started', {
+      sessionId: session.getId(),
+      agentId: session.data.agentId
+    });
+    return session;
+  }
+
+  static async resume(id: string, config: SessionConfig): Promise<Session> {
+    const store = config.store ?? new InMemorySessionStore();
+    const data = await store.load(id);
+    if (!data) {
+      throw new Error(`Session not found: ${id}`);
+    }
+
+    const agentId = config.agent.getId();
+    logger.info(LogComponent.AGENT, 'Session resumed', {
+      sessionId: id,
+      agentId,
+      previousAgentId: data.agentId !== agentId ? data.agentId : undefined,
+      turns: data.turns.length
+    });
+    return new Session({ ...config, store }, { ...data, agentId });
+  }
+
+  getId(): string {
+    return this.data.id;
+  }
+
+  getHistory(): SessionTurn[] {
+    return this.data.turns.map(turn => ({ ...turn }));
+  }
+
+  getSummary(): string | undefined {
+    return this.data.summary;
+  }
+
+  // Failed turns leave the history untouched so the message can simply be sent again
+  async send(message: string, options: ExecuteOptions = {}): Promise<TaskResult> {
+    if (this.busy) {
+      throw new Error('Session is still waiting for the previous reply');
+    }
+
+    this.busy = true;
+    try {
+      const sentAt = new Date();
+      const result = await this.agent.execute({
+        goal: this.data.goal,
+        task: message,
+        data: { sessionId: this.data.id },
+        history: this.buildHistory()
+      }, { ...options, conversation: true });
+
+      if (!result.success) {
+        logger.warn(LogComponent.AGENT, 'Session turn failed', {
+          sessionId: this.data.id,
+          status: result.status
+        });
+        return result;
+      }
+
+      const reply = typeof result.result === 'string' ? result.result : JSON.stringify(result.result);
+      this.data.turns.push(
+        { role: 'user', content: message, timestamp: sentAt },
+        { role: 'assistant', content: reply, timestamp: new Date() }
+      );
+      this.data.updatedAt = new Date();
+
+      await this.compact();
+      await this.save();
+      return result;
+    } finally {
+      this.busy = false;
+    }
+  }
+
+  async save(): Promise<void> {
+    await this.store.save(this.data);
+  }
+
+  private buildHistory(): ConversationMessage[] {
+    const messages: ConversationMessage[] = this.data.turns.map(turn => ({
+      role: turn.role,
+      content: turn.content
+    }));
+
+    if (this.data.summary && messages.length > 0) {
+      messages[0] = {
+        role: 'user',
+        content: `Summary of our earlier conversation:\n${this.data.summary}\n\n${messages[0].content}`
+      };
+    }
+    return messages;
+  }
+
+  // Folds the oldest turns into the running summary once the history grows past maxTurns
+  private async compact(): Promise<void> {
+    const { turns } = this.data;
+    if (turns.length <= this.maxTurns) return;
+
+    // Cut on an exchange boundary so the kept history still starts with the user
+    let cut = turns.length - this.keepTurns;
+    if (cut % 2 !== 0) cut++;
+    const trimmed = turns.slice(0, cut);
+
+    if (this.context) {
+      try {
+        this.data.summary = await this.context.summarizeNodes([
+          ...(this.data.summary ? [{ type: 'summary' as const, content: this.data.summary }] : []),
+          ...trimmed.map(turn => ({ type: 'communication' as const, content: `${turn.role}: ${turn.content}` }))
+        ]);
+      } catch (error) {
+        // Keep every turn rather than lose them without a summary; try again after the next turn
+        logger.warn(LogComponent.CONTEXT, 'Failed to summarize session history', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+          sessionId: this.data.id
+        });
+        return;
+      }
+    }
+
+    this.data.turns = turns.slice(cut);
+    this.data.summarizedTurns += trimmed.length;
+
+    logger.debug(LogComponent.AGENT, 'Compacted session history', {
+      sessionId: this.data.id,
+      trimmed: trimmed.length,
+      summarized: this.context !== undefined,
+      remaining: this.data.turns.length
+    });
+  }
+}
@@ -0,0 +1,59 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { writeFileAtomic } from '../utils/files.js';
+import { SessionData, SessionStore } from './types.js';
+
+function reviveSession(raw: SessionData): SessionData {
+  return {
+    ...raw,
+    createdAt: new Date(raw.createdAt),
+    updatedAt: new Date(raw.updatedAt),
+    turns: raw.turns.map(turn => ({ ...turn, timestamp: new Date(turn.timestamp) }))
+  };
+}
+
+export class InMemorySessionStore implements SessionStore {
+  private sessions: Map<string, string> = new Map();
+
+  async save(session: SessionData): Promise<void> {
+    this.sessions.set(session.id, JSON.stringify(session));
+  }
+
+  async load(id: string): Promise<SessionData | null> {
+    const data = this.sessions.get(id);
+    return data ? reviveSession(JSON.parse(data)) : null;
+  }
+
+  async delete(id: string): Promise<void> {
+    this.sessions.delete(id);
+  }
+}
+
+// One JSON file per session, named after its id
+export class FileSessionStore implements SessionStore {
+  constructor(private readonly directory: string) {}
+
+  async save(session: SessionData): Promise<void> {
+    await writeFileAtomic(this.pathFor(session.id), JSON.stringify(session, null, 2));
+  }
+
+  async load(id: string): Promise<SessionData | null> {
+    try {
+      return reviveSession(JSON.parse(await fs.readFile(this.pathFor(id), 'utf-8')));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    await fs.rm(this.pathFor(id), { force: true });
+  }
+
+  private pathFor(id: string): string {
+    if (!/^[\w-]+$/.test(id)) {
+      throw new Error(`Invalid session id: ${id}`);
+    }
+    return join(this.directory, `${id}.json`);
+  }
+}
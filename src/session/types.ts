@@ -0,0 +1,28 @@
+export interface SessionTurn {
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: Date;
+}
+
+export interface SessionData {
+  id: string;
+  agentId: string;
+  goal: string;
+  turns: SessionTurn[]; // Recent turns, kept word for word
+  summary?: string; // Condensed version of every turn trimmed so far
+  summarizedTurns: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SessionOptions {
+  goal?: string; // Shared goal for every turn; defaults to a generic conversation goal
+  maxTurns?: number; // Turns kept word for word before older ones are summarized
+  keepTurns?: number; // Turns left after summarizing
+}
+
+export interface SessionStore {
+  save(session: SessionData): Promise<void>;
+  load(id: string): Promise<SessionData | null>;
+  delete(id: string): Promise<void>;
+}
@@ -0,0 +1,239 @@
+import { Agent, AgentConfig, AgentTask, TaskResult } from '../agents/base/Agent.js';
+import { logger } from '../logging/base.js';
+import { LogComponent } from '../logging/types.js';
+import { interpolate } from '../prompts/base.js';
+import {
+  HandOffCondition,
+  HandOffRule,
+  TeamMember,
+  TeamMemberMetrics,
+  TeamResult,
+  TranscriptEntry
+} from './types.js';
+
+export interface TeamConfig {
+  name: string; // Prefixes member agent ids
+  members: TeamMember[];
+  handOffs: HandOffRule[];
+  lead?: string; // Member who takes the objective first; defaults to the first member
+  claude: AgentConfig['claude'];
+  backplane: AgentConfig['backplane'];
+  memory: AgentConfig['memory']; // Shared by every member
+  roleLoader: AgentConfig['roleLoader'];
+  maxTurns?: number; // Guards against hand-off loops such as reviewer → coder → reviewer
+}
+
+const DEFAULT_HANDOFF_TASK = 'Continue work on the objective "{{objective}}" using the output from {{from}}';
+
+// Hand-offs fire on success unless the rule says otherwise
+function matches(condition: HandOffCondition = 'success', result: TaskResult): boolean {
+  if (typeof condition === 'function') return condition(result);
+  if (condition === 'always') return true;
+  return condition === 'success' ? result.success : !result.success;
+}
+
+function emptyMetrics(member: string, agentId: string): TeamMemberMetrics {
+  return {
+    member,
+    agentId,
+    tasks: 0,
+    succeeded: 0,
+    failed: 0,
+    calls: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    totalTokens: 0,
+    cost: 0,
+    duration: 0
+  };
+}
+
+export class Team {
+  private readonly config: TeamConfig;
+  private readonly agents: Map<string, Agent> = new Map();
+  private readonly maxTurns: number;
+
+  constructor(config: TeamConfig) {
+    const names = new Set(config.members.map(member => member.name));
+    if (names.size === 0) {
+      throw new Error('Team needs at least one member');
+    }
+    if (names.size !== config.members.length) {
+      throw new Error('Team member names must be unique');
+    }
+
+    for (const rule of config.handOffs) {
+      const unknown = [rule.from, rule.to].find(name => !names.has(name));
+      if (unknown) {
+        throw new Error(`Hand-off ${rule.from} → ${rule.to} refers to unknown member ${unknown}`);
+      }
+    }
+    if (config.lead && !names.has(config.lead)) {
+      throw new Error(`Team lead ${config.lead} is not a member`);
+    }
+
+    this.config = config;
+    this.maxTurns = config.maxTurns ?? 10;
+  }
+
+  async start(): Promise<void> {
+    for (const member of this.config.members) {
+      if (this.agents.has(member.name)) continue;
+
+      const agent = new Agent({
+        ...member.options,
+        id: `${this.config.name}-${member.name}`,
+        rolePath: member.rolePath,
+        tools: member.tools ?? [],
+        claude: this.config.claude,
+        backplane: this.config.backplane,
+        memory: this.config.memory,
+        roleLoader: this.config.roleLoader
+      });
+      await agent.start();
+      this.agents.set(member.name, agent);
+    }
+
+    logger.info(LogComponent.AGENT, 'Team started', {
+      team: this.config.name,
+      members: Array.from(this.agents.keys())
+    });
+  }
+
+  async stop(): Promise<void> {
+    // Members share one memory store, so it is optimized once here rather than by each of them at the same time
+    await Promise.all(Array.from(this.agents.values()).map(agent => agent.stop({ flush: false })));
+    this.agents.clear();
+
+    try {
+      await this.config.memory.optimize();
+    } catch (error) {
+      logger.warn(LogComponent.MEMORY, 'Failed to flush team memory on stop', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        team: this.config.name
+      });
+    }
+
+    logger.info(LogComponent.AGENT, 'Team stopped', { team: this.config.name });
+  }
+
+  getMember(name: string): Agent | undefined {
+    return this.agents.get(name);
+  }
+
+  // Passes the objective from member to member along the hand-off rules until no rule applies
+  async run(objective: string, data: Record<string, unknown> = {}): Promise<TeamResult> {
+    if (this.agents.size === 0) {
+      await this.start();
+    }
+
+    const transcript: TranscriptEntry[] = [];
+    const metrics: Record<string, TeamMemberMetrics> = {};
+    let member: string | undefined = this.config.lead ?? this.config.members[0].name;
+    let task: AgentTask = { goal: objective, task: objective, data };
+    let result: TaskResult | undefined;
+
+    while (member) {
+      if (transcript.length >= this.maxTurns) {
+        logger.warn(LogComponent.AGENT, 'Team stopped after reaching its turn limit', {
+          team: this.config.name,
+          objective,
+          maxTurns: this.maxTurns
+        });
+        return { success: false, objective, result, transcript, metrics };
+      }
+
+      const agent = this.agents.get(member)!;
+      const startedAt = new Date();
+      result = await this.runTurn(agent, task);
+      transcript.push({
+        turn: transcript.length + 1,
+        member,
+        agentId: agent.getId(),
+        task,
+        result,
+        startedAt,
+        finishedAt: new Date()
+      });
+      this.recordMetrics(metrics, member, agent.getId(), result);
+
+      const rule = this.config.handOffs.find(entry => entry.from === member && matches(entry.when, result!));
+      if (!rule) break;
+
+      logger.debug(LogComponent.AGENT, 'Handing off team task', {
+        team: this.config.name,
+        from: rule.from,
+        to: rule.to,
+        turn: transcript.length
+      });
+
+      task = this.handOffTask(rule, objective, data, transcript);
+      member = rule.to;
+    }
+
+    return { success: result?.success ?? false, objective, result, transcript, metrics };
+  }
+
+  private async runTurn(agent: Agent, task: AgentTask): Promise<TaskResult> {
+    try {
+      // An empty budget sets no limits but still measures each member's usage
+      return await agent.execute(task, { budget: {} });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logger.error(LogComponent.AGENT, 'Team member failed to run task', {
+        team: this.config.name,
+        agentId: agent.getId(),
+        error: message
+      });
+      return { success: false, result: message };
+    }
+  }
+
+  private handOffTask(
+    rule: HandOffRule,
+    objective: string,
+    data: Record<string, unknown>,
+    transcript: TranscriptEntry[]
+  ): AgentTask {
+    const last = transcript[transcript.length - 1];
+    const output = last.result.output ?? last.result.result;
+
+    return {
+      goal: objective,
+      task: interpolate(rule.task ?? DEFAULT_HANDOFF_TASK, { objective, from: rule.from, result: output }),
+      data: {
+        ...data,
+        handOff: { from: rule.from, success: last.result.success, result: output },
+        history: transcript.map(entry => ({
+          member: entry.member,
+          task: entry.task.task,
+          result: entry.result.output ?? entry.result.result
+        }))
+      }
+    };
+  }
+
+  private recordMetrics(
+    metrics: Record<string, TeamMemberMetrics>,
+    member: string,
+    agentId: string,
+    result: TaskResult
+  ): void {
+    const entry = metrics[member] ??= emptyMetrics(member, agentId);
+    entry.tasks++;
+    if (result.success) {
+      entry.succeeded++;
+    } else {
+      entry.failed++;
+    }
+
+    if (result.usage) {
+      entry.calls += result.usage.calls;
+      entry.inputTokens += result.usage.inputTokens;
+      entry.outputTokens += result.usage.outputTokens;
+      entry.totalTokens += result.usage.totalTokens;
+      entry.cost += result.usage.cost;
+      entry.duration += result.usage.duration;
+    }
+  }
+}
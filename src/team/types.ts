@@ -0,0 +1,44 @@
+import type { AgentConfig, AgentTask, TaskResult } from '../agents/base/Agent.js';
+import type { BudgetUsage } from '../budget/types.js';
+
+export interface TeamMember {
+  name: string; // Unique within the team, e.g. "pm" or "coder"
+  rolePath: string;
+  tools?: AgentConfig['tools'];
+  options?: Partial<Omit<AgentConfig, 'id' | 'rolePath' | 'tools' | 'claude' | 'backplane' | 'memory' | 'roleLoader'>>;
+}
+
+export type HandOffCondition = 'success' | 'failure' | 'always' | ((result: TaskResult) => boolean);
+
+export interface HandOffRule {
+  from: string;
+  to: string;
+  when?: HandOffCondition; // Defaults to success
+  task?: string; // Template for the next task; {{objective}}, {{from}} and {{result}} are filled in
+}
+
+export interface TranscriptEntry {
+  turn: number;
+  member: string;
+  agentId: string;
+  task: AgentTask;
+  result: TaskResult;
+  startedAt: Date;
+  finishedAt: Date;
+}
+
+export interface TeamMemberMetrics extends Omit<BudgetUsage, 'exceeded'> {
+  member: string;
+  agentId: string;
+  tasks: number;
+  succeeded: number;
+  failed: number;
+}
+
+export interface TeamResult {
+  success: boolean;
+  objective: string;
+  result?: TaskResult; // The last member's result
+  transcript: TranscriptEntry[];
+  metrics: Record<string, TeamMemberMetrics>;
+}
@@ -1,3 +1,7 @@
+import type { ToolDefinition } from '../claude/client.js';
+import type { ApprovalRecord } from '../approval/types.js';
+import type { ClarificationRecord } from '../clarification/types.js';
+
 export interface Parameter {
   name: string;
   type: 'string' | 'number' | 'boolean' | 'object' | 'array';
@@ -22,6 +26,8 @@ export interface ToolResult<T = unknown> {
     retries?: number;
     cacheHit?: boolean;
     dependencies?: string[];
+    approval?: ApprovalRecord;
+    clarification?: ClarificationRecord;
   };
 }
 
@@ -46,7 +52,57 @@ export interface Tool<TParams = unknown, TOutput = unknown> {
   parameters: Parameter[];
   requiresApproval: boolean;
   options?: ToolOptions;
-  execute(params: TParams): Promise<ToolResult<TOutput>>;
+  execute(params: TParams, signal?: AbortSignal): Promise<ToolResult<TOutput>>;
+}
+
+// The error an aborted signal carries, so callers can report why work stopped
+export function abortError(signal: AbortSignal): Error {
+  return signal.reason instanceof Error ? signal.reason : new Error('Operation was cancelled');
+}
+
+export function parameterToSchema(param: Parameter): Record<string, unknown> {
+  const schema: Record<string, unknown> = {
+    type: param.type,
+    description: param.description
+  };
+
+  if (param.enum) {
+    schema.enum = param.enum;
+  }
+  if (param.default !== undefined) {
+    schema.default = param.default;
+  }
+  if (param.type === 'array' && param.items) {
+    schema.items = parameterToSchema(param.items);
+  }
+  if (param.type === 'object' && param.properties) {
+    const entries = Object.entries(param.properties);
+    schema.properties = Object.fromEntries(
+      entries.map(([key, prop]) => [key, parameterToSchema(prop)])
+    );
+    const required = entries.filter(([, prop]) => prop.required).map(([key]) => key);
+    if (required.length > 0) {
+      schema.required = required;
+    }
+  }
+
+  return schema;
+}
+
+// Describes a tool in the shape Claude expects for native tool use
+export function toToolDefinition(tool: Tool): ToolDefinition {
+  const required = tool.parameters.filter(p => p.required).map(p => p.name);
+  return {
+    name: tool.name,
+    description: tool.description,
+    input_schema: {
+      type: 'object',
+      properties: Object.fromEntries(
+        tool.parameters.map(p => [p.name, parameterToSchema(p)])
+      ),
+      ...(required.length > 0 ? { required } : {})
+    }
+  };
 }
 
 interface CacheEntry<T> {
@@ -67,7 +123,7 @@ export abstract class BaseTool<TParams = unknown, TOutput = unknown> implements
     this.options = options;
   }
 
-  async execute(params: TParams): Promise<ToolResult<TOutput>> {
+  async execute(params: TParams, signal?: AbortSignal): Promise<ToolResult<TOutput>> {
     const startTime = new Date();
     let retries = 0;
     let lastError: Error | null = null;
@@ -94,6 +150,10 @@ export abstract class BaseTool<TParams = unknown, TOutput = unknown> implements
 
     while (retries < maxAttempts) {
       try {
+        if (signal?.aborted) {
+          throw abortError(signal);
+        }
+
         // 1. Validate parameters
         this.validateParams(params);
 
@@ -101,7 +161,7 @@ export abstract class BaseTool<TParams = unknown, TOutput = unknown> implements
         await this.checkDependencies();
 
         // 3. Execute with timeout if configured
-        const result = await this.executeWithTimeout(params);
+        const result = await this.executeWithTimeout(params, signal);
 
         // 4. Cache result if enabled
         if (this.options?.caching?.enabled) {
@@ -125,6 +185,9 @@ export abstract class BaseTool<TParams = unknown, TOutput = unknown> implements
         lastError = error instanceof Error ? error : new Error('Unknown error');
         retries++;
 
+        // Cancellation is final, so don't retry
+        if (signal?.aborted) break;
+
         if (retries < maxAttempts) {
           // Calculate delay based on backoff strategy
           const retryDelay = backoff === 'exponential'
@@ -150,25 +213,31 @@ export abstract class BaseTool<TParams = unknown, TOutput = unknown> implements
     };
   }
 
-  protected abstract executeImpl(params: TParams): Promise<TOutput>;
+  // Long-running implementations should watch the signal; it fires on timeout and on cancellation
+  protected abstract executeImpl(params: TParams, signal: AbortSignal): Promise<TOutput>;
 
-  private async executeWithTimeout(params: TParams): Promise<ToolResult<TOutput>> {
+  private async executeWithTimeout(params: TParams, signal?: AbortSignal): Promise<ToolResult<TOutput>> {
     const startTime = new Date();
     const timeout = this.options?.timeout;
+    const controller = new AbortController();
+    const timer = timeout
+      ? setTimeout(() => controller.abort(new Error(`Tool execution timed out after ${timeout}ms`)), timeout)
+      : undefined;
+    const combined = signal ? AbortSignal.any([signal, controller.signal]) : controller.signal;
 
     try {
-      const executePromise = this.executeImpl(params);
-
-      const result = timeout
-        ? await Promise.race([
-            executePromise,
-            new Promise<never>((_, reject) => {
-              setTimeout(() => {
-                reject(new Error(`Tool execution timed out after ${timeout}ms`));
-              }, timeout);
-            })
-          ])
-        : await executePromise;
+      // Settle as soon as the signal fires, even if executeImpl ignores it
+      const result = await new Promise<TOutput>((resolve, reject) => {
+        const onAbort = () => reject(abortError(combined));
+        if (combined.aborted) {
+          onAbort();
+          return;
+        }
+        combined.addEventListener('abort', onAbort, { once: true });
+        this.executeImpl(params, combined)
+          .then(resolve, reject)
+          .finally(() => combined.removeEventListener('abort', onAbort));
+      });
 
       return {
         success: true,
@@ -190,6 +259,8 @@ export abstract class BaseTool<TParams = unknown, TOutput = unknown> implements
           duration: new Date().getTime() - startTime.getTime()
         }
       };
+    } finally {
+      clearTimeout(timer);
     }
   }
 
@@ -325,7 +396,7 @@ export class ComposedTool<TParams, TOutput> extends BaseTool<TParams, TOutput> {
       description: string;
       parameters: Parameter[];
       tools: Tool[];
-      compose: (tools: Tool[], params: TParams) => Promise<TOutput>;
+      compose: (tools: Tool[], params: TParams, signal: AbortSignal) => Promise<TOutput>;
       options?: ToolOptions;
     }
   ) {
@@ -343,7 +414,7 @@ export class ComposedTool<TParams, TOutput> extends BaseTool<TParams, TOutput> {
   description: string;
   parameters: Parameter[];
 
-  protected async executeImpl(params: TParams): Promise<TOutput> {
-    return await this.config.compose(this.config.tools, params);
+  protected async executeImpl(params: TParams, signal: AbortSignal): Promise<TOutput> {
+    return await this.config.compose(this.config.tools, params, signal);
   }
 }
@@ -0,0 +1,290 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { promises as fs } from 'fs';
+import type { AgentTask, ToolCallRecord } from '../agents/base/Agent.js';
+import type { ToolCall } from '../agents/base/Plugins.js';
+import { logger } from '../logging/base.js';
+import { LogComponent } from '../logging/types.js';
+import { writeFileAtomic } from '../utils/files.js';
+import { Trace, TraceDivergence, TraceEvent } from './types.js';
+
+export class TraceDivergenceError extends Error {
+  constructor(readonly divergence: TraceDivergence) {
+    super(`Replay diverged from the trace: ${divergence.message}`);
+    this.name = 'TraceDivergenceError';
+  }
+}
+
+const activeTracer = new AsyncLocalStorage<Tracer>();
+
+// The tracer of the task whose async context we are running in, if any
+export function currentTracer(): Tracer | undefined {
+  return activeTracer.getStore();
+}
+
+// Copies a value the way it will look once written to and read back from a trace file
+function snapshot<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function firstDifference(
+  expected: unknown,
+  actual: unknown,
+  path: string
+): Pick<TraceDivergence, 'path' | 'expected' | 'actual'> | undefined {
+  if (Object.is(expected, actual)) return undefined;
+
+  if (Array.isArray(expected) && Array.isArray(actual)) {
+    for (let i = 0; i < Math.max(expected.length, actual.length); i++) {
+      const difference = firstDifference(expected[i], actual[i], `${path}[${i}]`);
+      if (difference) return difference;
+    }
+    return undefined;
+  }
+
+  if (isPlainObject(expected) && isPlainObject(actual)) {
+    const keys = new Set([...Object.keys(expected), ...Object.keys(actual)]);
+    for (const key of keys) {
+      const difference = firstDifference(expected[key], actual[key], `${path}.${key}`);
+      if (difference) return difference;
+    }
+    return undefined;
+  }
+
+  return { path, expected, actual };
+}
+
+function reviveRecord(record: ToolCallRecord): ToolCallRecord {
+  const { metadata } = record.result;
+  return {
+    ...record,
+    result: {
+      ...record.result,
+      metadata: {
+        ...metadata,
+        startTime: new Date(metadata.startTime),
+        endTime: new Date(metadata.endTime),
+        ...(metadata.approval ? {
+          approval: {
+            ...metadata.approval,
+            requestedAt: new Date(metadata.approval.requestedAt),
+            decidedAt: new Date(metadata.approval.decidedAt)
+          }
+        } : {}),
+        ...(metadata.clarification ? {
+          clarification: {
+            ...metadata.clarification,
+            requestedAt: new Date(metadata.clarification.requestedAt),
+            answeredAt: new Date(metadata.clarification.answeredAt)
+          }
+        } : {})
+      }
+    }
+  };
+}
+
+function reviveTrace(raw: Trace): Trace {
+  return {
+    ...raw,
+    startedAt: new Date(raw.startedAt),
+    ...(raw.finishedAt ? { finishedAt: new Date(raw.finishedAt) } : {})
+  };
+}
+
+// Sits between an agent and everything non-deterministic it calls: Claude requests and tool calls
+export abstract class Tracer {
+  // Runs fn with this tracer as the current one; Claude calls and tool calls made inside go through it
+  abstract run<T>(task: AgentTask, fn: () => Promise<T>): Promise<T>;
+
+  abstract claude<T>(request: unknown, send: () => Promise<T>): Promise<T>;
+
+  abstract tool(call: ToolCall, execute: () => Promise<ToolCallRecord>): Promise<ToolCallRecord>;
+
+  protected enter<T>(fn: () => Promise<T>): Promise<T> {
+    return activeTracer.run(this, fn);
+  }
+}
+
+// Records one task at a time, writing the trace to path when the task finishes, even if it failed
+export class TraceRecorder extends Tracer {
+  private trace?: Trace;
+
+  constructor(private readonly path?: string) {
+    super();
+  }
+
+  async run<T>(task: AgentTask, fn: () => Promise<T>): Promise<T> {
+    const trace: Trace = { version: 1, task: snapshot(task), events: [], startedAt: new Date() };
+    this.trace = trace;
+
+    try {
+      return await this.enter(fn);
+    } finally {
+      trace.finishedAt = new Date();
+      if (this.path) {
+        await this.save(this.path).catch(error => {
+          logger.error(LogComponent.AGENT, 'Failed to save trace', {
+            error: error instanceof Error ? error.message : 'Unknown error',
+            path: this.path
+          });
+        });
+      }
+    }
+  }
+
+  async claude<T>(request: unknown, send: () => Promise<T>): Promise<T> {
+    // Snapshot now, since callers keep appending to the messages array after the request
+    const sent = snapshot(request);
+    try {
+      const response = await send();
+      this.push({ type: 'claude', request: sent, response: snapshot(response) });
+      return response;
+    } catch (error) {
+      this.push({ type: 'claude', request: sent, error: error instanceof Error ? error.message : 'Unknown error' });
+      throw error;
+    }
+  }
+
+  async tool(call: ToolCall, execute: () => Promise<ToolCallRecord>): Promise<ToolCallRecord> {
+    const requested = snapshot(call);
+    const record = await execute();
+    this.push({ type: 'tool', call: requested, record: snapshot(record) });
+    return record;
+  }
+
+  getTrace(): Trace | undefined {
+    return this.trace;
+  }
+
+  async save(path: string): Promise<void> {
+    if (!this.trace) {
+      throw new Error('Nothing has been recorded yet');
+    }
+
+    await writeFileAtomic(path, JSON.stringify(this.trace, null, 2));
+
+    logger.info(LogComponent.AGENT, 'Saved trace', { path, events: this.trace.events.length });
+  }
+
+  private push(event: TraceEvent): void {
+    this.trace?.events.push(event);
+  }
+}
+
+// Feeds recorded responses and tool results back in order, without calling Claude or any tool.
+// Requests that differ from the recording are noted and answered from the trace anyway, so the
+// run can be stepped through; the replay only stops when the trace has no matching event left.
+export class TraceReplayer extends Tracer {
+  private readonly trace: Trace;
+  private cursor: number = 0;
+  private divergence?: TraceDivergence;
+
+  constructor(trace: Trace) {
+    super();
+    this.trace = trace;
+  }
+
+  static async load(path: string): Promise<TraceReplayer> {
+    return new TraceReplayer(reviveTrace(JSON.parse(await fs.readFile(path, 'utf-8'))));
+  }
+
+  // The recorded task, to hand back to execute()
+  getTask(): AgentTask {
+    return snapshot(this.trace.task);
+  }
+
+  // The first point where the replay did not match the recording
+  getDivergence(): TraceDivergence | undefined {
+    return this.divergence;
+  }
+
+  async run<T>(task: AgentTask, fn: () => Promise<T>): Promise<T> {
+    this.cursor = 0;
+    this.divergence = undefined;
+    this.compare(-1, 'task', this.trace.task, task);
+
+    const result = await this.enter(fn);
+    if (this.cursor < this.trace.events.length) {
+      const next = this.trace.events[this.cursor];
+      this.diverge({
+        index: this.cursor,
+        path: 'type',
+        expected: next.type,
+        actual: undefined,
+        message: `Run finished with ${this.trace.events.length - this.cursor} recorded events left, next a ${next.type} event`
+      });
+    }
+
+    logger.info(LogComponent.AGENT, 'Replay finished', {
+      events: this.trace.events.length,
+      replayed: this.cursor,
+      diverged: this.divergence !== undefined
+    });
+    return result;
+  }
+
+  async claude<T>(request: unknown): Promise<T> {
+    const [index, event] = this.next('claude');
+    this.compare(index, 'request', event.request, request);
+
+    if (event.error !== undefined) {
+      throw new Error(event.error);
+    }
+    return snapshot(event.response) as T;
+  }
+
+  async tool(call: ToolCall): Promise<ToolCallRecord> {
+    const [index, event] = this.next('tool');
+    this.compare(index, 'call', event.call, call);
+    return reviveRecord(snapshot(event.record));
+  }
+
+  private next<K extends TraceEvent['type']>(type: K): [number, Extract<TraceEvent, { type: K }>] {
+    const index = this.cursor;
+    const event = this.trace.events[index];
+
+    if (!event || event.type !== type) {
+      const divergence: TraceDivergence = {
+        index,
+        path: 'type',
+        expected: event?.type,
+        actual: type,
+        message: event
+          ? `Event ${index} made a ${type} call where the trace recorded a ${event.type} call`
+          : `Event ${index} made a ${type} call after the trace ended`
+      };
+      this.diverge(divergence);
+      throw new TraceDivergenceError(divergence);
+    }
+
+    this.cursor++;
+    return [index, event as Extract<TraceEvent, { type: K }>];
+  }
+
+  private compare(index: number, path: string, expected: unknown, actual: unknown): void {
+    const difference = firstDifference(expected, snapshot(actual), path);
+    if (difference) {
+      this.diverge({
+        ...difference,
+        index,
+        message: index < 0
+          ? `Task differs from the recorded one at ${difference.path}`
+          : `Event ${index} differs from the recording at ${difference.path}`
+      });
+    }
+  }
+
+  private diverge(divergence: TraceDivergence): void {
+    if (!this.divergence) {
+      this.divergence = divergence;
+      logger.warn(LogComponent.AGENT, 'Replay diverged from the trace', {
+        index: divergence.index,
+        path: divergence.path,
+        message: divergence.message
+      });
+    }
+  }
+}
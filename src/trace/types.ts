@@ -0,0 +1,33 @@
+import type { AgentTask, ToolCallRecord } from '../agents/base/Agent.js';
+import type { ToolCall } from '../agents/base/Plugins.js';
+
+export interface ClaudeTraceEvent {
+  type: 'claude';
+  request: unknown; // Parameters sent to the Messages API
+  response?: unknown; // Raw API response, absent when the request failed
+  error?: string;
+}
+
+export interface ToolTraceEvent {
+  type: 'tool';
+  call: ToolCall; // As requested by the model
+  record: ToolCallRecord; // What the agent handed back, after any approval or clarification
+}
+
+export type TraceEvent = ClaudeTraceEvent | ToolTraceEvent;
+
+export interface Trace {
+  version: 1;
+  task: AgentTask;
+  events: TraceEvent[];
+  startedAt: Date;
+  finishedAt?: Date;
+}
+
+export interface TraceDivergence {
+  index: number; // Event position in the trace; -1 for the task itself
+  path: string; // Where in the event the replay first differed, e.g. request.messages[2].content
+  expected: unknown;
+  actual: unknown;
+  message: string;
+}
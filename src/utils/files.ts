@@ -0,0 +1,17 @@
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+
+// Writes to a temp file beside the target and renames it into place, so readers never see a
+// half-written file. Each call gets its own temp name, so concurrent writers cannot clobber each other.
+export async function writeFileAtomic(path: string, content: string): Promise<void> {
+  await fs.mkdir(dirname(path), { recursive: true });
+
+  const temp = `${path}.${process.pid}.${crypto.randomUUID()}.tmp`;
+  try {
+    await fs.writeFile(temp, content, 'utf-8');
+    await fs.rename(temp, path);
+  } catch (error) {
+    await fs.rm(temp, { force: true });
+    throw error;
+  }
+}